@@ -358,6 +358,24 @@ const ffmpegEmbedPlugin = {
   },
 };
 
+// Plugin giving the library build the bundled worker's source, so it can
+// start workers from a Blob instead of a file next to it
+const embeddedWorkerPlugin = (workerCode) => ({
+  name: "embedded-worker",
+  setup(build) {
+    build.onResolve({ filter: /^embedded:pitch-shifter-worker$/ }, (args) => {
+      return { path: args.path, namespace: "embedded-worker" };
+    });
+
+    build.onLoad({ filter: /.*/, namespace: "embedded-worker" }, () => {
+      return {
+        contents: `export default ${JSON.stringify(workerCode)};`,
+        loader: "js",
+      };
+    });
+  },
+});
+
 async function build() {
   try {
     // Ensure dist directory exists
@@ -450,6 +468,12 @@ async function build() {
       ],
     };
 
+    // Build configuration for the live preview AudioWorklet
+    const workletConfig = {
+      ...workerConfig,
+      entryPoints: ["src/audio/live-preview.worklet.ts"],
+    };
+
     console.log("Building JavaScript bundle...");
     const result = await esbuild.build(buildConfig);
 
@@ -474,6 +498,18 @@ async function build() {
       console.warn("Worker build warnings:", workerResult.warnings);
     }
 
+    console.log("Building audio worklet...");
+    const workletResult = await esbuild.build(workletConfig);
+
+    if (workletResult.errors.length > 0) {
+      console.error("Worklet build errors:", workletResult.errors);
+      process.exit(1);
+    }
+
+    if (workletResult.warnings.length > 0) {
+      console.warn("Worklet build warnings:", workletResult.warnings);
+    }
+
     // Read the generated JavaScript file
     const jsFilePath = path.join(distDir, "index.js");
     const jsContent = fs.readFileSync(jsFilePath, "utf8");
@@ -482,6 +518,50 @@ async function build() {
     const workerFilePath = path.join(distDir, "pitch-shifter.worker.js");
     const workerContent = fs.readFileSync(workerFilePath, "utf8");
 
+    // Read the generated audio worklet file
+    const workletFilePath = path.join(distDir, "live-preview.worklet.js");
+    const workletContent = fs.readFileSync(workletFilePath, "utf8");
+
+    // Headless library: the engine without the page, for other apps to
+    // import as dist/transpose.js. FFmpeg is only imported dynamically, so
+    // splitting puts it in a chunk of its own that's fetched the first time
+    // a file needs it rather than with every import.
+    console.log("Building library...");
+    const libraryResult = await esbuild.build({
+      ...buildConfig,
+      entryPoints: ["src/transpose.ts"],
+      splitting: true,
+      chunkNames: "transpose-[name]-[hash]",
+      plugins: [embeddedWorkerPlugin(workerContent), ...buildConfig.plugins],
+    });
+
+    if (libraryResult.errors.length > 0) {
+      console.error("Library build errors:", libraryResult.errors);
+      process.exit(1);
+    }
+
+    // Command-line tool for Node. Packages stay external and load from
+    // node_modules, so RubberBand and FFmpeg find their own WASM files.
+    console.log("Building command-line tool...");
+    const cliResult = await esbuild.build({
+      entryPoints: ["src/cli.ts"],
+      bundle: true,
+      minify: !isDev,
+      sourcemap: isDev,
+      outfile: "dist/cli.mjs",
+      format: "esm",
+      target: "node18",
+      platform: "node",
+      packages: "external",
+      banner: { js: "#!/usr/bin/env node" },
+    });
+
+    if (cliResult.errors.length > 0) {
+      console.error("Command-line build errors:", cliResult.errors);
+      process.exit(1);
+    }
+    fs.chmodSync(path.join(distDir, "cli.mjs"), 0o755);
+
     // Create the HTML template with embedded JavaScript
     const htmlTemplate = `<!DOCTYPE html>
 <html lang="en">
@@ -499,27 +579,238 @@ async function build() {
 
         <div class="drop-zone" id="dropZone">
             <p>Drop your audio file here</p>
-            <small>Supports MP3, M4A, and WAV files</small>
-            <input type="file" id="fileInput" accept=".mp3,.m4a,.wav" style="display: none;">
+            <small>Supports MP3, M4A, and WAV files. Drop several to export them as a batch.</small>
+            <input type="file" id="fileInput" accept=".mp3,.m4a,.wav" multiple style="display: none;">
+        </div>
+
+        <div class="project-container">
+            <button class="btn-small" id="openProjectBtn" type="button">Open project…</button>
+            <button class="btn-small" id="saveProjectBtn" type="button" disabled>Save project</button>
+            <button class="btn-small" id="copyLinkBtn" type="button" title="A link that sets the same pitch, tempo and options; no audio is included">Copy link</button>
+            <input type="file" id="projectFileInput" accept=".json,application/json" style="display: none;">
+            <span class="hint" id="projectStatus">Projects keep every setting; opening one re-applies them once its audio file is loaded</span>
+        </div>
+
+        <div class="cache-container">
+            <label for="persistentCacheToggle">
+                <input type="checkbox" id="persistentCacheToggle">
+                Keep renders between visits
+            </label>
+            <button class="btn-small" id="clearCacheBtn" type="button">Clear render cache</button>
+            <span class="hint">Stores up to 1 GB of rendered audio in this browser</span>
         </div>
 
         <div class="controls" id="controls">
+            <div class="preset-container">
+                <label for="presetSelect">Preset
+                    <select id="presetSelect">
+                        <option value="" selected>Choose a preset…</option>
+                    </select>
+                </label>
+                <button class="btn-small" id="savePresetBtn" type="button">Save as preset…</button>
+                <button class="btn-small" id="deletePresetBtn" type="button" disabled>Delete</button>
+                <button class="btn-small" id="importPresetsBtn" type="button">Import…</button>
+                <button class="btn-small" id="exportPresetsBtn" type="button" disabled>Export</button>
+                <input type="file" id="presetFileInput" accept=".json,application/json" style="display: none;">
+            </div>
+
             <div class="slider-container">
                 <label for="fineSlider">Fine Tuning (cents):</label>
                 <div class="slider-value" id="fineSliderValue">0</div>
                 <input type="range" id="fineSlider" class="slider" min="-50" max="50" value="0" step="1">
             </div>
 
+            <div class="reference-container">
+                <button class="btn-small" id="referenceBtn" disabled>Match a reference track…</button>
+                <input type="file" id="referenceFileInput" accept=".mp3,.m4a,.wav" style="display: none;">
+                <span class="hint" id="referenceResult">Sets pitch and fine tuning to line up with another recording</span>
+            </div>
+
+            <div class="tuning-container">
+                <div class="tuning-measured">
+                    Measured tuning: <strong id="measuredTuning">—</strong>
+                </div>
+                <label for="referencePitchSelect">Retune to
+                    <select id="referencePitchSelect">
+                        <option value="" selected>Off</option>
+                        <option value="440">A = 440 Hz</option>
+                        <option value="432">A = 432 Hz</option>
+                        <option value="442">A = 442 Hz</option>
+                        <option value="custom">Custom</option>
+                    </select>
+                    <input type="number" id="customReferenceInput" min="400" max="480" step="0.1" value="440" hidden>
+                </label>
+                <span class="retune-cents" id="retuneCents"></span>
+            </div>
+
             <div class="slider-container">
                 <label for="pitchSlider">Pitch Shift (semitones):</label>
                 <div class="slider-value" id="sliderValue">0</div>
                 <input type="range" id="pitchSlider" class="slider" min="-12" max="12" value="0" step="1">
             </div>
 
+            <div class="key-container">
+                <div class="key-detected">
+                    Detected key: <strong id="detectedKey">—</strong>
+                    <span class="key-confidence" id="keyConfidence"></span>
+                </div>
+                <label for="targetKeySelect">Transpose to
+                    <select id="targetKeySelect" disabled></select>
+                </label>
+            </div>
+
             <div class="slider-container">
                 <label for="tempoSlider">Tempo (%):</label>
                 <div class="slider-value" id="tempoSliderValue">100</div>
                 <input type="range" id="tempoSlider" class="slider" min="50" max="200" value="100" step="1">
+                <div class="bpm-row">
+                    <span>Detected tempo: <strong id="detectedBpm">—</strong></span>
+                    <label for="targetBpmInput">Target BPM
+                        <input type="number" id="targetBpmInput" min="1" step="0.1" disabled>
+                    </label>
+                </div>
+            </div>
+
+            <div class="checkbox-container">
+                <label for="formantToggle">
+                    <input type="checkbox" id="formantToggle">
+                    Preserve formants (natural-sounding vocals)
+                </label>
+            </div>
+
+            <div class="channel-container">
+                <label for="channelModeSelect">Channels
+                    <select id="channelModeSelect">
+                        <option value="all" selected>All channels</option>
+                        <option value="mono">Mono downmix</option>
+                        <option value="left">Left only</option>
+                        <option value="right">Right only</option>
+                        <option value="mid">Shift mid, keep side</option>
+                        <option value="side">Shift side, keep mid</option>
+                    </select>
+                </label>
+                <label for="vocalReductionSelect">Vocals
+                    <select id="vocalReductionSelect">
+                        <option value="off" selected>Keep</option>
+                        <option value="center">Remove centre (karaoke)</option>
+                        <option value="band">Remove centre, keep bass and kick</option>
+                    </select>
+                </label>
+            </div>
+
+            <details class="advanced-options" id="advancedOptions">
+                <summary>Advanced quality options</summary>
+                <div class="select-grid">
+                    <label for="engineSelect">Engine
+                        <select id="engineSelect">
+                            <option value="faster" selected>Faster</option>
+                            <option value="finer">Finer</option>
+                        </select>
+                    </label>
+                    <label for="transientsSelect">Transients
+                        <select id="transientsSelect">
+                            <option value="crisp">Crisp (drums)</option>
+                            <option value="mixed">Mixed</option>
+                            <option value="smooth" selected>Smooth (pads)</option>
+                        </select>
+                    </label>
+                    <label for="detectorSelect">Detector
+                        <select id="detectorSelect">
+                            <option value="compound">Compound</option>
+                            <option value="percussive">Percussive</option>
+                            <option value="soft" selected>Soft</option>
+                        </select>
+                    </label>
+                    <label for="phaseSelect">Phase
+                        <select id="phaseSelect">
+                            <option value="laminar" selected>Laminar</option>
+                            <option value="independent">Independent</option>
+                        </select>
+                    </label>
+                    <label for="windowSelect">Window
+                        <select id="windowSelect">
+                            <option value="standard" selected>Standard</option>
+                            <option value="short">Short</option>
+                            <option value="long">Long</option>
+                        </select>
+                    </label>
+                    <label for="pitchModeSelect">Pitch mode
+                        <select id="pitchModeSelect">
+                            <option value="speed" selected>High speed</option>
+                            <option value="quality">High quality</option>
+                            <option value="consistency">High consistency</option>
+                        </select>
+                    </label>
+                </div>
+            </details>
+
+            <details class="advanced-options" id="automationPanel">
+                <summary>Pitch &amp; tempo automation</summary>
+                <small class="hint">Keyframes override the sliders above. Times are on the original track.</small>
+                <table class="keyframe-table">
+                    <thead>
+                        <tr><th>Time (s)</th><th>Semitones</th><th>Tempo (%)</th><th></th></tr>
+                    </thead>
+                    <tbody id="keyframeRows"></tbody>
+                </table>
+                <div class="automation-actions">
+                    <button class="btn-small" id="addKeyframeBtn" type="button">Add keyframe at playhead</button>
+                    <label for="interpolationSelect">Interpolation
+                        <select id="interpolationSelect">
+                            <option value="linear" selected>Linear (gradual)</option>
+                            <option value="step">Step (instant)</option>
+                        </select>
+                    </label>
+                </div>
+            </details>
+
+            <div class="export-container">
+                <label for="exportFormatSelect">Export as
+                    <select id="exportFormatSelect">
+                        <option value="m4a" selected>M4A (AAC)</option>
+                        <option value="wav">WAV</option>
+                    </select>
+                </label>
+                <div class="wav-options" id="wavOptions" hidden>
+                    <label for="bitDepthSelect">Bit depth
+                        <select id="bitDepthSelect">
+                            <option value="16" selected>16-bit</option>
+                            <option value="24">24-bit</option>
+                            <option value="32">32-bit float</option>
+                        </select>
+                    </label>
+                    <label for="sampleRateSelect">Sample rate
+                        <select id="sampleRateSelect">
+                            <option value="" selected>Original</option>
+                            <option value="44100">44.1 kHz</option>
+                            <option value="48000">48 kHz</option>
+                            <option value="88200">88.2 kHz</option>
+                            <option value="96000">96 kHz</option>
+                        </select>
+                    </label>
+                    <label for="ditherSelect">Dither
+                        <select id="ditherSelect">
+                            <option value="none">None</option>
+                            <option value="tpdf" selected>TPDF</option>
+                            <option value="shaped">TPDF + noise shaping</option>
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            <div class="batch-queue" id="batchQueue" hidden>
+                <small class="hint">Every file is rendered with the pitch, fine tuning, tempo, channel and export settings above. Retuning, regions, automation and loops only apply to the track being edited.</small>
+                <table class="keyframe-table">
+                    <thead>
+                        <tr><th>File</th><th>Status</th><th></th></tr>
+                    </thead>
+                    <tbody id="batchRows"></tbody>
+                </table>
+                <div class="automation-actions">
+                    <button class="btn-small" id="batchExportBtn" type="button">Export all</button>
+                    <button class="btn-small" id="batchZipBtn" type="button" disabled>Download ZIP</button>
+                    <button class="btn-small" id="batchClearBtn" type="button">Clear list</button>
+                </div>
             </div>
 
             <div class="button-group">
@@ -527,11 +818,70 @@ async function build() {
                 <button class="btn btn-secondary" id="exportBtn" disabled>Export M4A</button>
             </div>
 
+            <div class="live-preview" id="livePreview">
+                <button class="btn-small" id="livePlayBtn" type="button" disabled>▶ Play live</button>
+                <input type="range" id="liveSeek" class="slider" min="0" max="0" value="0" step="0.01" disabled>
+                <span class="live-time" id="liveTime">0:00 / 0:00</span>
+            </div>
+
             <div class="audio-player" id="audioPlayer">
                 <div>Original:</div>
                 <audio id="originalAudio" controls style="display: none;"></audio>
+                <div class="region-controls" id="regionControls">
+                    <label for="regionStart">Region start (s)
+                        <input type="number" id="regionStart" min="0" step="0.01" placeholder="0">
+                    </label>
+                    <button class="btn-small" id="setRegionStartBtn" type="button">Set from playhead</button>
+                    <label for="regionEnd">Region end (s)
+                        <input type="number" id="regionEnd" min="0" step="0.01" placeholder="end">
+                    </label>
+                    <button class="btn-small" id="setRegionEndBtn" type="button">Set from playhead</button>
+                    <button class="btn-small" id="clearRegionBtn" type="button">Process whole file</button>
+                </div>
                 <div>Processed:</div>
                 <audio id="processedAudio" controls style="display: none;"></audio>
+                <div class="loop-controls" id="loopControls">
+                    <div class="loop-timeline" id="loopTimeline" title="Drag to mark the loop">
+                        <div class="loop-range" id="loopRange"></div>
+                        <div class="loop-playhead" id="loopPlayhead"></div>
+                    </div>
+                    <div class="region-controls">
+                        <label for="loopStart">Loop A (s)
+                            <input type="number" id="loopStart" min="0" step="0.01" placeholder="—">
+                        </label>
+                        <button class="btn-small" id="setLoopStartBtn" type="button">Set from playhead</button>
+                        <label for="loopEnd">Loop B (s)
+                            <input type="number" id="loopEnd" min="0" step="0.01" placeholder="—">
+                        </label>
+                        <button class="btn-small" id="setLoopEndBtn" type="button">Set from playhead</button>
+                    </div>
+                    <div class="loop-trainer">
+                        <label for="trainerToggle">
+                            <input type="checkbox" id="trainerToggle">
+                            Speed trainer: +
+                            <input type="number" id="trainerStep" min="0.5" max="20" step="0.5" value="2">
+                            % per pass, up to
+                            <input type="number" id="trainerTarget" min="25" max="200" step="1" value="100">
+                            %
+                        </label>
+                    </div>
+                    <div class="live-preview">
+                        <button class="btn-small" id="loopPlayBtn" type="button" disabled>▶ Play loop</button>
+                        <span class="live-time" id="loopPass"></span>
+                    </div>
+                </div>
+                <div class="loudness-container">
+                    <div class="loudness-measured">
+                        Loudness: <strong id="loudnessReadout">—</strong>
+                        <span class="loudness-warning" id="loudnessWarning" hidden></span>
+                    </div>
+                    <label for="normalizeToggle">
+                        <input type="checkbox" id="normalizeToggle">
+                        Normalize export to
+                        <input type="number" id="loudnessTargetInput" min="-40" max="-5" step="0.5" value="-14">
+                        LUFS
+                    </label>
+                </div>
             </div>
         </div>
 
@@ -540,6 +890,8 @@ async function build() {
         <div class="progress-bar" id="progressBar">
             <div class="progress-fill" id="progressFill"></div>
         </div>
+
+        <button class="btn-small cancel-btn" id="cancelBtn" type="button">Cancel</button>
     </div>
 
     <script type="module">
@@ -560,6 +912,22 @@ async function build() {
           }
         };
 
+        // Embed the live preview worklet the same way
+        const workletCode = ${JSON.stringify(workletContent)};
+        const workletBlob = new Blob([workletCode], { type: 'application/javascript' });
+        const workletUrl = URL.createObjectURL(workletBlob);
+
+        if (globalThis.AudioWorklet) {
+          const originalAddModule = AudioWorklet.prototype.addModule;
+          AudioWorklet.prototype.addModule = function (moduleURL, options) {
+            const href = moduleURL.href || String(moduleURL);
+            if (href.includes('live-preview.worklet')) {
+              return originalAddModule.call(this, workletUrl, options);
+            }
+            return originalAddModule.call(this, moduleURL, options);
+          };
+        }
+
         ${jsContent}
     </script>
 </body>
@@ -575,6 +943,8 @@ async function build() {
       path.join(distDir, "index.js.map"),
       path.join(distDir, "pitch-shifter.worker.js"),
       path.join(distDir, "pitch-shifter.worker.js.map"),
+      path.join(distDir, "live-preview.worklet.js"),
+      path.join(distDir, "live-preview.worklet.js.map"),
       path.join(distDir, "node_modules"),
     ];
 
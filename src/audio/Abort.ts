@@ -0,0 +1,15 @@
+export function createAbortError(
+  message = "Operation cancelled"
+): DOMException {
+  return new DOMException(message, "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
@@ -1,3 +1,31 @@
+import { createAbortError, isAbortError, throwIfAborted } from "./Abort";
+import { WavOptions, encodeWav } from "./WavEncoder";
+import { normalizeLoudness } from "./Loudness";
+
+export interface ExportMetadata {
+  bpm?: number;
+}
+
+export type ExportFormat = "m4a" | "wav";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["m4a", "wav"];
+
+// Everything the UI hands over for an export besides the audio itself
+export interface ExportSettings {
+  format: ExportFormat;
+  wav: WavOptions;
+  metadata: ExportMetadata;
+  // Normalize to this integrated loudness first, in LUFS
+  loudnessTarget: number | null;
+}
+
+// Container-specific tag names FFmpeg understands for the tempo
+const BPM_TAGS: Record<string, string> = {
+  m4a: "tmpo",
+  mp3: "TBPM",
+  ogg: "BPM",
+};
+
 export class AudioExporter {
   private initialized = false;
   private ffmpeg: any = null;
@@ -52,9 +80,26 @@ export class AudioExporter {
     }
   }
 
+  // Normalize if asked to, then encode in the chosen format
+  async encode(
+    audioBuffer: AudioBuffer,
+    settings: ExportSettings,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    if (settings.loudnessTarget !== null) {
+      audioBuffer = normalizeLoudness(audioBuffer, settings.loudnessTarget);
+    }
+
+    return settings.format === "wav"
+      ? this.exportToWAV(audioBuffer, signal, settings.wav, settings.metadata)
+      : this.exportToM4A(audioBuffer, undefined, signal, settings.metadata);
+  }
+
   async exportToM4A(
     audioBuffer: AudioBuffer,
-    bitrate: number = 256
+    bitrate: number = 256,
+    signal?: AbortSignal,
+    metadata: ExportMetadata = {}
   ): Promise<Blob> {
     if (!this.initialized) {
       throw new Error("Audio exporter not initialized");
@@ -63,6 +108,8 @@ export class AudioExporter {
     console.log(`Exporting to M4A using FFmpeg WASM (${bitrate}kbps)...`);
 
     try {
+      throwIfAborted(signal);
+
       // Ensure FFmpeg is loaded
       await this.ensureFFmpegLoaded();
 
@@ -79,28 +126,47 @@ export class AudioExporter {
         audioBuffer.sampleRate,
         audioBuffer.numberOfChannels,
         "m4a",
-        bitrate
+        bitrate,
+        signal,
+        metadata
       );
 
       const blob = new Blob([m4aData], { type: "audio/mp4" });
       console.log("M4A export completed successfully");
       return blob;
     } catch (error) {
-      console.error("Error during M4A export:", error);
+      if (!isAbortError(error)) {
+        console.error("Error during M4A export:", error);
+      }
       throw error;
     }
   }
 
-  async exportToWAV(audioBuffer: AudioBuffer): Promise<Blob> {
+  async exportToWAV(
+    audioBuffer: AudioBuffer,
+    signal?: AbortSignal,
+    options: WavOptions = {},
+    metadata: ExportMetadata = {}
+  ): Promise<Blob> {
     if (!this.initialized) {
       throw new Error("Audio exporter not initialized");
     }
 
+    throwIfAborted(signal);
+
     try {
       console.log("Exporting to WAV...");
 
-      // Convert AudioBuffer to WAV ArrayBuffer
-      const wavArrayBuffer = this.audioBufferToWav(audioBuffer);
+      const channels: Float32Array[] = [];
+      for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channels.push(audioBuffer.getChannelData(ch));
+      }
+      const wavArrayBuffer = encodeWav(
+        channels,
+        audioBuffer.sampleRate,
+        options,
+        metadata
+      );
 
       console.log("WAV export completed successfully");
       return new Blob([wavArrayBuffer], { type: "audio/wav" });
@@ -116,13 +182,17 @@ export class AudioExporter {
 
   async exportToMP3(
     audioBuffer: AudioBuffer,
-    bitrate: number = 256
+    bitrate: number = 256,
+    signal?: AbortSignal,
+    metadata: ExportMetadata = {}
   ): Promise<Blob> {
     if (!this.initialized) {
       throw new Error("Audio exporter not initialized");
     }
 
     try {
+      throwIfAborted(signal);
+
       console.log(`Exporting to MP3 using FFmpeg WASM (${bitrate}kbps)...`);
 
       // Ensure FFmpeg is loaded
@@ -137,13 +207,18 @@ export class AudioExporter {
         audioBuffer.sampleRate,
         audioBuffer.numberOfChannels,
         "mp3",
-        bitrate
+        bitrate,
+        signal,
+        metadata
       );
 
       const blob = new Blob([mp3Data], { type: "audio/mpeg" });
       console.log("MP3 export completed successfully");
       return blob;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error("Error during MP3 export:", error);
 
       // Fallback to WAV export if MP3 fails
@@ -153,56 +228,6 @@ export class AudioExporter {
     }
   }
 
-  private audioBufferToWav(audioBuffer: AudioBuffer): ArrayBuffer {
-    const length = audioBuffer.length;
-    const channels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const bytesPerSample = 2;
-    const blockAlign = channels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = length * blockAlign;
-    const bufferSize = 44 + dataSize;
-
-    const buffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(buffer);
-
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-
-    writeString(0, "RIFF");
-    view.setUint32(4, bufferSize - 8, true);
-    writeString(8, "WAVE");
-    writeString(12, "fmt ");
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, channels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, 16, true);
-    writeString(36, "data");
-    view.setUint32(40, dataSize, true);
-
-    // Convert float32 to int16
-    let offset = 44;
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < channels; channel++) {
-        const sample = Math.max(
-          -1,
-          Math.min(1, audioBuffer.getChannelData(channel)[i])
-        );
-        view.setInt16(offset, sample * 0x7fff, true);
-        offset += 2;
-      }
-    }
-
-    return buffer;
-  }
-
   private async audioBufferToPCM(
     audioBuffer: AudioBuffer
   ): Promise<ArrayBuffer> {
@@ -249,14 +274,31 @@ export class AudioExporter {
     sampleRate: number,
     channels: number,
     format: string,
-    bitrate: number
+    bitrate: number,
+    signal?: AbortSignal,
+    metadata: ExportMetadata = {}
   ): Promise<ArrayBuffer> {
     const inputFile = "input.pcm";
     const outputFile = `output.${format}`;
 
+    // FFmpeg can't be interrupted mid-encode, so tear the instance down and
+    // let the next export load a fresh one. This job keeps to the instance
+    // it started with either way.
+    await this.ensureFFmpegLoaded();
+    const ffmpeg = this.ffmpeg;
+    const onAbort = () => {
+      if (this.ffmpeg === ffmpeg) {
+        this.ffmpeg = null;
+      }
+      ffmpeg.terminate();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     try {
+      throwIfAborted(signal);
+
       // Write PCM data to FFmpeg filesystem
-      await this.ffmpeg.writeFile(inputFile, new Uint8Array(pcmData));
+      await ffmpeg.writeFile(inputFile, new Uint8Array(pcmData));
       console.log(`Wrote ${pcmData.byteLength} bytes to ${inputFile}`);
 
       // Build FFmpeg command
@@ -280,24 +322,36 @@ export class AudioExporter {
         command.push("-codec:a", "libvorbis", "-b:a", `${bitrate}k`);
       }
 
+      if (metadata.bpm && BPM_TAGS[format]) {
+        command.push(
+          "-metadata",
+          `${BPM_TAGS[format]}=${Math.round(metadata.bpm)}`
+        );
+      }
+
       command.push(outputFile);
 
       console.log("Running FFmpeg command:", command);
 
       // Execute FFmpeg command
-      await this.ffmpeg.exec(command);
+      await ffmpeg.exec(command);
       console.log("FFmpeg execution completed");
 
       // Read the output file
-      const outputData = await this.ffmpeg.readFile(outputFile);
+      const outputData = await ffmpeg.readFile(outputFile);
       console.log(
         `Successfully encoded ${format} file, size: ${outputData.length} bytes`
       );
 
       return outputData.buffer;
     } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
       console.error("FFmpeg encoding error:", error);
       throw new Error(`Failed to encode to ${format}: ${error}`);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
@@ -6,21 +6,46 @@ export class AudioProcessor {
       (window as any).webkitAudioContext)();
   }
 
-  async decodeAudioFile(file: File): Promise<AudioBuffer> {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
+  /**
+   * Decode an uploaded file. Pass `data` when the file's bytes have already
+   * been read; they're handed to Web Audio without a copy, so the caller
+   * mustn't use them afterwards. The FFmpeg fallback reads the file again.
+   */
+  async decodeAudioFile(file: File, data?: ArrayBuffer): Promise<AudioBuffer> {
+    return this.decode(
+      data ?? (await file.arrayBuffer()),
+      () => file.arrayBuffer(),
+      file.name
+    );
+  }
 
+  // The file name only hints at the format for the FFmpeg fallback
+  async decodeAudioData(
+    arrayBuffer: ArrayBuffer,
+    fileName: string = "input.wav"
+  ): Promise<AudioBuffer> {
+    // Web Audio takes ownership of what it's given, and these bytes are
+    // the caller's, so it gets a copy
+    return this.decode(arrayBuffer.slice(0), async () => arrayBuffer, fileName);
+  }
+
+  private async decode(
+    data: ArrayBuffer,
+    reread: () => Promise<ArrayBuffer>,
+    fileName: string
+  ): Promise<AudioBuffer> {
+    try {
       // Try Web Audio API first (works for WAV and MP3)
       try {
-        const audioBuffer =
-          await this.audioContext.decodeAudioData(arrayBuffer);
+        const audioBuffer = await this.audioContext.decodeAudioData(data);
         console.log("Successfully decoded with Web Audio API");
         return audioBuffer;
       } catch (webAudioError) {
         console.log("Web Audio API failed, trying FFmpeg for M4A...");
 
-        // If Web Audio API fails, try FFmpeg (for M4A files)
-        return await this.decodeWithFFmpeg(arrayBuffer, file.name);
+        // If Web Audio API fails, try FFmpeg (for M4A files). `data` has
+        // been detached by now.
+        return await this.decodeWithFFmpeg(await reread(), fileName);
       }
     } catch (error) {
       throw new Error(
@@ -60,8 +85,6 @@ export class AudioProcessor {
         inputName,
         "-ar",
         "44100",
-        "-ac",
-        "2",
         "-f",
         "wav",
         outputName,
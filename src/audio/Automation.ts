@@ -0,0 +1,76 @@
+export interface Keyframe {
+  time: number; // seconds, on the input timeline
+  semitones: number;
+  tempo: number; // ratio, 1.0 = original speed
+}
+
+export type KeyframeInterpolation = "linear" | "step";
+
+export interface Automation {
+  keyframes: Keyframe[];
+  interpolation?: KeyframeInterpolation;
+}
+
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+export function validateKeyframes(keyframes: Keyframe[]) {
+  for (const { time, semitones, tempo } of keyframes) {
+    if (!isFinite(time) || time < 0) {
+      throw new Error(`Invalid keyframe time: ${time}`);
+    }
+    if (!isFinite(semitones)) {
+      throw new Error(`Invalid keyframe semitones value: ${semitones}`);
+    }
+    if (!isFinite(tempo) || tempo <= 0) {
+      throw new Error(`Invalid keyframe tempo value: ${tempo}`);
+    }
+  }
+}
+
+/**
+ * Pitch and tempo at the given input time. Keyframes must be sorted; values
+ * hold before the first and after the last keyframe.
+ */
+export function automationValueAt(
+  keyframes: Keyframe[],
+  time: number,
+  interpolation: KeyframeInterpolation = "linear"
+): { semitones: number; tempo: number } {
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+
+  if (time <= first.time) {
+    return { semitones: first.semitones, tempo: first.tempo };
+  }
+  if (time >= last.time) {
+    return { semitones: last.semitones, tempo: last.tempo };
+  }
+
+  let next = 1;
+  while (keyframes[next].time <= time) next++;
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+
+  if (interpolation === "step") {
+    return { semitones: from.semitones, tempo: from.tempo };
+  }
+
+  const t = (time - from.time) / (to.time - from.time);
+  return {
+    semitones: from.semitones + (to.semitones - from.semitones) * t,
+    tempo: from.tempo + (to.tempo - from.tempo) * t,
+  };
+}
+
+// Shift keyframes onto a timeline that starts at `offset` seconds
+export function offsetKeyframes(
+  keyframes: Keyframe[],
+  offset: number
+): Keyframe[] {
+  return keyframes.map((keyframe) => ({
+    ...keyframe,
+    time: keyframe.time - offset,
+  }));
+}
@@ -0,0 +1,89 @@
+/**
+ * Which channels are stretched and how they're put back together:
+ * - all: every channel together (the default)
+ * - mono: the average of all channels, output as mono
+ * - left / right: just that channel, output as mono
+ * - mid / side: only the mid (or side) signal is shifted; the other is
+ *   time-stretched alone and the two are rebuilt into stereo
+ */
+export type ChannelMode = "all" | "mono" | "left" | "right" | "mid" | "side";
+
+export const CHANNEL_MODES: readonly ChannelMode[] = [
+  "all",
+  "mono",
+  "left",
+  "right",
+  "mid",
+  "side",
+];
+
+// Fall back to something sensible when the input can't support a mode
+export function resolveChannelMode(
+  mode: ChannelMode,
+  channels: number
+): ChannelMode {
+  if ((mode === "mid" || mode === "side") && channels !== 2) return "all";
+  if (mode === "right" && channels < 2) return "left";
+  return mode;
+}
+
+export function outputChannelCount(mode: ChannelMode, channels: number) {
+  switch (resolveChannelMode(mode, channels)) {
+    case "mono":
+    case "left":
+    case "right":
+      return 1;
+    default:
+      return channels;
+  }
+}
+
+// Channels to stretch for the modes that don't need rebuilding afterwards
+export function selectChannels(
+  audioData: Float32Array[],
+  mode: ChannelMode
+): Float32Array[] {
+  switch (mode) {
+    case "mono": {
+      const mono = new Float32Array(audioData[0].length);
+      for (const channel of audioData) {
+        for (let i = 0; i < mono.length; i++) {
+          mono[i] += channel[i] / audioData.length;
+        }
+      }
+      return [mono];
+    }
+    case "left":
+      return [audioData[0]];
+    case "right":
+      return [audioData[1]];
+    default:
+      return audioData;
+  }
+}
+
+export function toMidSide(
+  left: Float32Array,
+  right: Float32Array
+): [Float32Array, Float32Array] {
+  const mid = new Float32Array(left.length);
+  const side = new Float32Array(left.length);
+  for (let i = 0; i < left.length; i++) {
+    mid[i] = (left[i] + right[i]) / 2;
+    side[i] = (left[i] - right[i]) / 2;
+  }
+  return [mid, side];
+}
+
+export function fromMidSide(
+  mid: Float32Array,
+  side: Float32Array
+): [Float32Array, Float32Array] {
+  const left = new Float32Array(mid.length);
+  const right = new Float32Array(mid.length);
+  for (let i = 0; i < mid.length; i++) {
+    left[i] = mid[i] + side[i];
+    right[i] = mid[i] - side[i];
+  }
+  return [left, right];
+}
@@ -0,0 +1,95 @@
+/**
+ * In-place radix-2 FFT. `real` and `imag` must have the same power-of-two
+ * length.
+ */
+export function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const tReal = wReal * real[odd] - wImag * imag[odd];
+        const tImag = wReal * imag[odd] + wImag * real[odd];
+        real[odd] = real[even] - tReal;
+        imag[odd] = imag[even] - tImag;
+        real[even] += tReal;
+        imag[even] += tImag;
+
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+export function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return window;
+}
+
+/**
+ * Magnitude spectra of up to `maxFrames` windowed frames spread evenly over
+ * the mono mix of `audioBuffer`, so analysis cost doesn't grow with length.
+ * Calls `onFrame` with bins 0..size/2 of each frame.
+ */
+export function forEachSpectrum(
+  audioBuffer: AudioBuffer,
+  size: number,
+  maxFrames: number,
+  onFrame: (magnitudes: Float32Array) => void
+) {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    channels.push(audioBuffer.getChannelData(ch));
+  }
+
+  const window = hannWindow(size);
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  const magnitudes = new Float32Array(size / 2 + 1);
+  const frameCount = Math.floor(audioBuffer.length / size);
+  const stride = Math.max(1, frameCount / maxFrames);
+
+  for (let frame = 0; frame < frameCount; frame += stride) {
+    const offset = Math.floor(frame) * size;
+    for (let i = 0; i < size; i++) {
+      let sum = 0;
+      for (const channel of channels) {
+        sum += channel[offset + i];
+      }
+      real[i] = (sum / channels.length) * window[i];
+      imag[i] = 0;
+    }
+
+    fft(real, imag);
+    for (let bin = 0; bin <= size / 2; bin++) {
+      magnitudes[bin] = Math.hypot(real[bin], imag[bin]);
+    }
+    onFrame(magnitudes);
+  }
+}
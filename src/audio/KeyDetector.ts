@@ -0,0 +1,136 @@
+import { forEachSpectrum } from "./FFT";
+
+export type KeyMode = "major" | "minor";
+
+export interface KeyEstimate {
+  tonic: number; // pitch class, C = 0
+  mode: KeyMode;
+  name: string;
+  confidence: number; // 0-1
+}
+
+export const PITCH_CLASS_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+
+// Krumhansl-Kessler key profiles, starting from the tonic
+const MAJOR_PROFILE = [
+  6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88,
+];
+const MINOR_PROFILE = [
+  6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17,
+];
+
+const FRAME_SIZE = 8192;
+const MAX_FRAMES = 600;
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 5000;
+
+export function keyName(tonic: number, mode: KeyMode): string {
+  return `${PITCH_CLASS_NAMES[((tonic % 12) + 12) % 12]} ${mode}`;
+}
+
+/**
+ * Smallest shift in semitones that moves `fromTonic` to `toTonic`, in the
+ * range -6..5 so nothing is ever moved by more than a tritone.
+ */
+export function semitonesBetweenKeys(fromTonic: number, toTonic: number) {
+  return ((((toTonic - fromTonic + 6) % 12) + 12) % 12) - 6;
+}
+
+/**
+ * Estimates the key of a recording by folding its spectrum into a 12-bin
+ * chroma vector and correlating that against a major and minor profile for
+ * every tonic. Confidence is the winning correlation, clamped to 0-1.
+ */
+export class KeyDetector {
+  detect(audioBuffer: AudioBuffer): KeyEstimate {
+    const chroma = this.chroma(audioBuffer);
+
+    let best: KeyEstimate = {
+      tonic: 0,
+      mode: "major",
+      name: keyName(0, "major"),
+      confidence: 0,
+    };
+    let bestCorrelation = -Infinity;
+
+    for (const [mode, profile] of [
+      ["major", MAJOR_PROFILE],
+      ["minor", MINOR_PROFILE],
+    ] as const) {
+      for (let tonic = 0; tonic < 12; tonic++) {
+        const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+        const correlation = this.correlate(rotated, profile);
+        if (correlation > bestCorrelation) {
+          bestCorrelation = correlation;
+          best = {
+            tonic,
+            mode,
+            name: keyName(tonic, mode),
+            confidence: Math.max(0, Math.min(1, correlation)),
+          };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private chroma(audioBuffer: AudioBuffer): number[] {
+    const sampleRate = audioBuffer.sampleRate;
+    const chroma = new Array(12).fill(0);
+
+    // Pitch class of every bin in the analysed range, worked out once
+    const binClasses = new Int8Array(FRAME_SIZE / 2 + 1).fill(-1);
+    for (let bin = 1; bin <= FRAME_SIZE / 2; bin++) {
+      const frequency = (bin * sampleRate) / FRAME_SIZE;
+      if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+      const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+      binClasses[bin] = midi % 12;
+    }
+
+    forEachSpectrum(audioBuffer, FRAME_SIZE, MAX_FRAMES, (magnitudes) => {
+      // Normalise per frame so loud passages don't dominate the estimate
+      const frame = new Array(12).fill(0);
+      let total = 0;
+      for (let bin = 0; bin < magnitudes.length; bin++) {
+        if (binClasses[bin] < 0) continue;
+        const energy = magnitudes[bin] * magnitudes[bin];
+        frame[binClasses[bin]] += energy;
+        total += energy;
+      }
+      if (total <= 0) return;
+      for (let i = 0; i < 12; i++) {
+        chroma[i] += frame[i] / total;
+      }
+    });
+
+    return chroma;
+  }
+
+  private correlate(a: number[], b: number[]): number {
+    const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+    const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+      covariance += (a[i] - meanA) * (b[i] - meanB);
+      varianceA += (a[i] - meanA) ** 2;
+      varianceB += (b[i] - meanB) ** 2;
+    }
+    return covariance / (Math.sqrt(varianceA * varianceB) || 1);
+  }
+}
@@ -0,0 +1,151 @@
+import { StretchOptions } from "./StretchOptions";
+import { LivePreviewMessage, LivePreviewResponse } from "./LivePreviewProtocol";
+
+/**
+ * Plays a decoded buffer through the RubberBand AudioWorklet so pitch and
+ * tempo changes are heard while the track plays, without an offline render.
+ * The worklet needs its own copy of the track, so that's only made the
+ * first time the preview plays.
+ */
+export class LivePreview {
+  private audioContext: AudioContext | null = null;
+  private node: AudioWorkletNode | null = null;
+  private audioBuffer: AudioBuffer | null = null;
+  private duration = 0;
+  private playing = false;
+  // Sent to the worklet once it's loaded, and on every change after that
+  private semitones = 0;
+  private tempo = 1.0;
+  private stretchOptions: StretchOptions = {};
+  private position = 0;
+
+  onPosition: ((time: number) => void) | null = null;
+  onEnded: (() => void) | null = null;
+  onError: ((message: string) => void) | null = null;
+
+  // Use this buffer from now on; nothing is copied until it plays
+  setSource(audioBuffer: AudioBuffer) {
+    this.stop();
+    this.audioBuffer = audioBuffer;
+    this.duration = audioBuffer.duration;
+    this.position = 0;
+  }
+
+  private async load(audioBuffer: AudioBuffer) {
+    // Run the context at the buffer's rate so the worklet needn't resample
+    if (
+      !this.audioContext ||
+      this.audioContext.sampleRate !== audioBuffer.sampleRate
+    ) {
+      await this.audioContext?.close();
+      this.audioContext = new AudioContext({
+        sampleRate: audioBuffer.sampleRate,
+      });
+      await this.audioContext.audioWorklet.addModule(
+        new URL("./live-preview.worklet.ts", import.meta.url)
+      );
+    }
+
+    const channels = audioBuffer.numberOfChannels;
+    this.node = new AudioWorkletNode(this.audioContext, "live-preview", {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [channels],
+    });
+    this.node.port.onmessage = this.handleMessage.bind(this);
+    this.node.connect(this.audioContext.destination);
+
+    const audioData: Float32Array[] = [];
+    for (let i = 0; i < channels; i++) {
+      audioData.push(audioBuffer.getChannelData(i).slice());
+    }
+
+    this.postMessage({
+      type: "options",
+      data: { stretchOptions: this.stretchOptions },
+    });
+    this.postMessage({
+      type: "params",
+      data: { semitones: this.semitones, tempo: this.tempo },
+    });
+    this.postMessage(
+      { type: "load", data: { audioData } },
+      audioData.map((channel) => channel.buffer)
+    );
+    if (this.position > 0) {
+      this.postMessage({ type: "seek", data: { time: this.position } });
+    }
+  }
+
+  async play() {
+    if (!this.audioBuffer) return;
+    if (!this.node) {
+      await this.load(this.audioBuffer);
+    }
+
+    await this.audioContext!.resume();
+    this.playing = true;
+    this.postMessage({ type: "play" });
+  }
+
+  pause() {
+    this.playing = false;
+    this.postMessage({ type: "pause" });
+  }
+
+  seek(time: number) {
+    this.position = Math.max(0, Math.min(time, this.duration));
+    this.postMessage({ type: "seek", data: { time: this.position } });
+  }
+
+  setParams(semitones: number, tempo: number) {
+    this.semitones = semitones;
+    this.tempo = tempo;
+    this.postMessage({ type: "params", data: { semitones, tempo } });
+  }
+
+  setStretchOptions(stretchOptions: StretchOptions) {
+    this.stretchOptions = stretchOptions;
+    this.postMessage({ type: "options", data: { stretchOptions } });
+  }
+
+  stop() {
+    this.playing = false;
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  getDuration(): number {
+    return this.duration;
+  }
+
+  private handleMessage(event: MessageEvent<LivePreviewResponse>) {
+    const message = event.data;
+
+    switch (message.type) {
+      case "position":
+        this.position = message.data.time;
+        this.onPosition?.(message.data.time);
+        break;
+      case "ended":
+        this.playing = false;
+        this.onEnded?.();
+        break;
+      case "error":
+        console.error("Live preview error:", message.data);
+        this.onError?.(message.data);
+        break;
+    }
+  }
+
+  private postMessage(message: LivePreviewMessage, transfer?: Transferable[]) {
+    this.node?.port.postMessage(message, transfer ?? []);
+  }
+}
@@ -0,0 +1,21 @@
+import { StretchOptions } from "./StretchOptions";
+
+/**
+ * Messages exchanged between LivePreview and live-preview.worklet.ts over
+ * the node's port. The track is transferred once with "load"; everything
+ * after that is playback control and playhead reports.
+ */
+
+export type LivePreviewMessage =
+  | { type: "load"; data: { audioData: Float32Array[] } }
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "seek"; data: { time: number } }
+  | { type: "params"; data: { semitones: number; tempo: number } }
+  | { type: "options"; data: { stretchOptions: StretchOptions } };
+
+export type LivePreviewResponse =
+  | { type: "ready" }
+  | { type: "position"; data: { time: number } }
+  | { type: "ended" }
+  | { type: "error"; data: string };
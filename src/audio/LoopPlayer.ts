@@ -0,0 +1,159 @@
+// Each pass fades in and out this quickly so the jump back to the loop start
+// doesn't click
+const EDGE_FADE_SECONDS = 0.003;
+
+// How far ahead of the current pass ending the next one is queued
+const SCHEDULE_AHEAD_SECONDS = 0.5;
+
+/**
+ * Copy `start`-`end` seconds of a buffer into a buffer of its own, with
+ * short fades at both ends so it can be played back to back with itself.
+ */
+export function extractPassage(
+  audioBuffer: AudioBuffer,
+  start: number,
+  end: number
+): AudioBuffer {
+  const sampleRate = audioBuffer.sampleRate;
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(audioBuffer.length, Math.ceil(end * sampleRate));
+  const length = Math.max(1, to - from);
+  const fadeLength = Math.min(
+    Math.round(EDGE_FADE_SECONDS * sampleRate),
+    Math.floor(length / 2)
+  );
+
+  const passage = new AudioBuffer({
+    numberOfChannels: audioBuffer.numberOfChannels,
+    length,
+    sampleRate,
+  });
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    const channel = audioBuffer.getChannelData(ch).slice(from, from + length);
+    for (let i = 0; i < fadeLength; i++) {
+      const gain = i / fadeLength;
+      channel[i] *= gain;
+      channel[length - 1 - i] *= gain;
+    }
+    passage.copyToChannel(channel, ch);
+  }
+  return passage;
+}
+
+/**
+ * Plays a passage over and over without gaps. Every pass is scheduled on the
+ * audio clock to start exactly when the previous one ends, and `nextPass`
+ * may supply a different buffer for each pass (the speed trainer renders
+ * each one a little faster). It runs while the current pass plays, so a
+ * render that finishes in time is heard without a break.
+ */
+export class LoopPlayer {
+  private audioContext: AudioContext | null = null;
+  private sources: AudioBufferSourceNode[] = [];
+  private timers: number[] = [];
+  private session = 0;
+  private passStartTime = 0;
+  private passDuration = 0;
+
+  onPass: ((pass: number) => void) | null = null;
+  onPosition: ((fraction: number) => void) | null = null;
+  onError: ((message: string) => void) | null = null;
+
+  async play(
+    firstPass: AudioBuffer,
+    nextPass?: (pass: number) => Promise<AudioBuffer>
+  ) {
+    this.stop();
+    const session = this.session;
+
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    const context = this.audioContext;
+    await context.resume();
+
+    let buffer = firstPass;
+    let when = context.currentTime + 0.05;
+    this.startPositionUpdates(session);
+
+    for (let pass = 1; session === this.session; pass++) {
+      this.schedule(buffer, when, pass);
+      when += buffer.duration;
+
+      if (nextPass) {
+        try {
+          buffer = await nextPass(pass + 1);
+        } catch (error) {
+          // Keep looping what we have rather than stopping the practice
+          this.onError?.(
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+
+      await this.waitUntil(when - SCHEDULE_AHEAD_SECONDS);
+      // A render that came in late means a short gap rather than overlap
+      when = Math.max(when, context.currentTime + 0.02);
+    }
+  }
+
+  stop() {
+    this.session++;
+    for (const source of this.sources) {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    }
+    this.sources = [];
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  isPlaying(): boolean {
+    return this.sources.length > 0;
+  }
+
+  private schedule(buffer: AudioBuffer, when: number, pass: number) {
+    const context = this.audioContext!;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start(when);
+    source.onended = () => {
+      this.sources = this.sources.filter((s) => s !== source);
+      source.disconnect();
+    };
+    this.sources.push(source);
+
+    const delay = Math.max(0, (when - context.currentTime) * 1000);
+    this.timers.push(
+      window.setTimeout(() => {
+        this.passStartTime = when;
+        this.passDuration = buffer.duration;
+        this.onPass?.(pass);
+      }, delay)
+    );
+  }
+
+  private waitUntil(time: number): Promise<void> {
+    const delay = Math.max(0, (time - this.audioContext!.currentTime) * 1000);
+    return new Promise((resolve) => {
+      this.timers.push(window.setTimeout(resolve, delay));
+    });
+  }
+
+  private startPositionUpdates(session: number) {
+    const update = () => {
+      if (session !== this.session) return;
+      if (this.passDuration > 0) {
+        const elapsed = this.audioContext!.currentTime - this.passStartTime;
+        this.onPosition?.(
+          Math.max(0, Math.min(1, elapsed / this.passDuration))
+        );
+      }
+      requestAnimationFrame(update);
+    };
+    this.passDuration = 0;
+    requestAnimationFrame(update);
+  }
+}
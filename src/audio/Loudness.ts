@@ -0,0 +1,314 @@
+/**
+ * Loudness measurement after EBU R128 / ITU-R BS.1770 (K-weighted, gated
+ * integrated loudness and 4x oversampled true peak), plus normalisation to
+ * a target loudness with a true-peak look-ahead limiter.
+ */
+
+export interface LoudnessMeasurement {
+  integratedLufs: number; // -Infinity for silence or very short audio
+  truePeakDb: number; // dBTP
+  // Whether export would clip, since encoders clamp samples to ±1
+  clipping: boolean;
+}
+
+export const DEFAULT_LOUDNESS_TARGET = -14;
+export const DEFAULT_TRUE_PEAK_CEILING = -1;
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1; // blocks overlap by 75%
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12; // per phase
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.05;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+// The two K-weighting stages, derived for any sample rate
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [
+      (vh + (vb * k) / q + k * k) / a0,
+      (2 * (k * k - vh)) / a0,
+      (vh - (vb * k) / q + k * k) / a0,
+    ],
+    a: [1, (2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [1, (2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  return [shelf, highPass];
+}
+
+// Direct form I; state holds x[n-1], x[n-2], y[n-1], y[n-2]
+function applyBiquad(
+  { b, a }: Biquad,
+  state: Float64Array,
+  input: number
+): number {
+  const output =
+    b[0] * input +
+    b[1] * state[0] +
+    b[2] * state[1] -
+    a[1] * state[2] -
+    a[2] * state[3];
+  state[1] = state[0];
+  state[0] = input;
+  state[3] = state[2];
+  state[2] = output;
+  return output;
+}
+
+// BS.1770 channel weights, assuming the usual 5.1 order L R C LFE Ls Rs
+function channelWeight(index: number, channels: number): number {
+  if (channels < 6) return 1;
+  if (index === 3) return 0;
+  return index >= 4 ? 1.41 : 1;
+}
+
+// Windowed-sinc coefficients for the in-between phases of 4x oversampling
+const interpolationPhases: number[][] = (() => {
+  const phases: number[][] = [];
+  const half = INTERPOLATION_TAPS / 2;
+  for (let phase = 1; phase < OVERSAMPLING; phase++) {
+    const coefficients: number[] = [];
+    for (let j = -half + 1; j <= half; j++) {
+      const t = phase / OVERSAMPLING - j;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / (half + 1));
+      coefficients.push(sinc * window);
+    }
+    phases.push(coefficients);
+  }
+  return phases;
+})();
+
+// Largest magnitude between samples n and n + 1, oversampled
+function interSamplePeak(channel: Float32Array, n: number): number {
+  const half = INTERPOLATION_TAPS / 2;
+  let peak = 0;
+  for (const coefficients of interpolationPhases) {
+    let value = 0;
+    for (let j = 0; j < coefficients.length; j++) {
+      const index = n - half + 1 + j;
+      if (index >= 0 && index < channel.length) {
+        value += channel[index] * coefficients[j];
+      }
+    }
+    peak = Math.max(peak, Math.abs(value));
+  }
+  return peak;
+}
+
+function toDb(value: number): number {
+  return 20 * Math.log10(value);
+}
+
+function getChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    channels.push(audioBuffer.getChannelData(ch));
+  }
+  return channels;
+}
+
+export function measureLoudness(audioBuffer: AudioBuffer): LoudnessMeasurement {
+  const channels = getChannels(audioBuffer);
+  const integratedLufs = integratedLoudness(channels, audioBuffer.sampleRate);
+  const truePeak = measureTruePeak(channels);
+
+  return {
+    integratedLufs,
+    truePeakDb: toDb(truePeak),
+    clipping: truePeak > 1,
+  };
+}
+
+function integratedLoudness(
+  channels: Float32Array[],
+  sampleRate: number
+): number {
+  const filters = kWeightingFilters(sampleRate);
+  const stepLength = Math.round(STEP_SECONDS * sampleRate);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  const stepCount = Math.floor(channels[0].length / stepLength);
+
+  // Weighted K-filtered energy of every 100ms step, summed over channels
+  const stepEnergy = new Float64Array(stepCount);
+  channels.forEach((channel, index) => {
+    const weight = channelWeight(index, channels.length);
+    if (weight === 0) return;
+
+    const state = filters.map(() => new Float64Array(4));
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      for (let i = step * stepLength; i < (step + 1) * stepLength; i++) {
+        const shelved = applyBiquad(filters[0], state[0], channel[i]);
+        const weighted = applyBiquad(filters[1], state[1], shelved);
+        sum += weighted * weighted;
+      }
+      stepEnergy[step] += (weight * sum) / stepLength;
+    }
+  });
+
+  const blocks: number[] = [];
+  for (let start = 0; start + stepsPerBlock <= stepCount; start++) {
+    let energy = 0;
+    for (let step = start; step < start + stepsPerBlock; step++) {
+      energy += stepEnergy[step];
+    }
+    blocks.push(energy / stepsPerBlock);
+  }
+
+  const loudness = (energy: number) => -0.691 + 10 * Math.log10(energy);
+  const gatedMean = (threshold: number) => {
+    const passing = blocks.filter((energy) => loudness(energy) > threshold);
+    return passing.length > 0
+      ? passing.reduce((sum, energy) => sum + energy, 0) / passing.length
+      : 0;
+  };
+
+  const absoluteMean = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absoluteMean === 0) return -Infinity;
+
+  const relativeMean = gatedMean(loudness(absoluteMean) + RELATIVE_GATE_LU);
+  return relativeMean > 0 ? loudness(relativeMean) : -Infinity;
+}
+
+function measureTruePeak(channels: Float32Array[]): number {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+
+  // Between-sample overshoot stays well under 6 dB, so only samples near
+  // the current peak are worth oversampling
+  for (const channel of channels) {
+    for (let i = 0; i + 1 < channel.length; i++) {
+      if (Math.max(Math.abs(channel[i]), Math.abs(channel[i + 1])) < peak / 2)
+        continue;
+      peak = Math.max(peak, interSamplePeak(channel, i));
+    }
+  }
+
+  return peak;
+}
+
+/**
+ * Bring `audioBuffer` to `targetLufs`, then limit it so the true peak stays
+ * under `ceilingDb`. The limiter looks ahead so gain is already reduced when
+ * a peak arrives, and releases smoothly afterwards. Returns a new buffer.
+ */
+export function normalizeLoudness(
+  audioBuffer: AudioBuffer,
+  targetLufs: number = DEFAULT_LOUDNESS_TARGET,
+  ceilingDb: number = DEFAULT_TRUE_PEAK_CEILING
+): AudioBuffer {
+  const source = getChannels(audioBuffer);
+  const sampleRate = audioBuffer.sampleRate;
+  const measured = integratedLoudness(source, sampleRate);
+  const gain = isFinite(measured)
+    ? Math.pow(10, (targetLufs - measured) / 20)
+    : 1;
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const length = audioBuffer.length;
+
+  const channels = source.map((channel) =>
+    channel.map((sample) => sample * gain)
+  );
+
+  // Gain each sample needs for its (oversampled) peak to meet the ceiling
+  const required = new Float32Array(length).fill(1);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      let peak = Math.abs(channel[i]);
+      if (peak > ceiling / 2 && i + 1 < length) {
+        peak = Math.max(peak, interSamplePeak(channel, i));
+      }
+      if (peak > ceiling) {
+        required[i] = Math.min(required[i], ceiling / peak);
+      }
+    }
+  }
+
+  const lookahead = Math.max(
+    1,
+    Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate)
+  );
+  const envelope = smoothAttack(
+    lookaheadMinimum(required, lookahead),
+    lookahead
+  );
+
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * sampleRate));
+  let current = 1;
+  for (let i = 0; i < length; i++) {
+    current =
+      envelope[i] < current
+        ? envelope[i]
+        : current + (envelope[i] - current) * release;
+    for (const channel of channels) {
+      channel[i] *= current;
+    }
+  }
+
+  const output = new AudioBuffer({
+    numberOfChannels: channels.length,
+    length,
+    sampleRate,
+  });
+  channels.forEach((channel, ch) => output.copyToChannel(channel, ch));
+  return output;
+}
+
+// Minimum of values[i..i + window] for every i, using a monotonic deque
+function lookaheadMinimum(values: Float32Array, window: number): Float32Array {
+  const output = new Float32Array(values.length);
+  const deque = new Int32Array(values.length);
+  let head = 0;
+  let tail = 0;
+
+  for (let i = values.length - 1; i >= 0; i--) {
+    while (tail > head && values[deque[tail - 1]] >= values[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] > i + window) head++;
+    output[i] = values[deque[head]];
+  }
+
+  return output;
+}
+
+// Average over the preceding `window` samples, so gain ramps down over the
+// look-ahead instead of stepping; still at or below the value at each peak
+function smoothAttack(values: Float32Array, window: number): Float32Array {
+  const output = new Float32Array(values.length);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= window) sum -= values[i - window];
+    output[i] = sum / Math.min(i + 1, window);
+  }
+  return output;
+}
@@ -0,0 +1,46 @@
+/**
+ * Collects streamed output blocks into arrays allocated once up front from
+ * the expected length, so long renders don't keep a list of small chunks
+ * around and then concatenate them into a second full-size copy.
+ */
+export class OutputBuffer {
+  private channels: Float32Array[];
+  private length = 0;
+
+  constructor(channels: number, expectedLength: number) {
+    const capacity = Math.max(1, Math.ceil(expectedLength));
+    this.channels = Array.from(
+      { length: channels },
+      () => new Float32Array(capacity)
+    );
+  }
+
+  append(block: Float32Array[]) {
+    const blockLength = block[0].length;
+    const required = this.length + blockLength;
+
+    // The estimate can fall short (automation, engine rounding); grow once
+    // with some headroom rather than on every block
+    if (required > this.channels[0].length) {
+      const capacity = Math.max(
+        required,
+        Math.ceil(this.channels[0].length * 1.25)
+      );
+      this.channels = this.channels.map((channel) => {
+        const grown = new Float32Array(capacity);
+        grown.set(channel.subarray(0, this.length));
+        return grown;
+      });
+    }
+
+    for (let ch = 0; ch < this.channels.length; ch++) {
+      this.channels[ch].set(block[ch], this.length);
+    }
+    this.length = required;
+  }
+
+  // Views trimmed to what was written; no copy is made
+  toChannels(): Float32Array[] {
+    return this.channels.map((channel) => channel.subarray(0, this.length));
+  }
+}
@@ -1,40 +1,117 @@
-interface WorkerMessage {
-  type: "init" | "process";
-  data?: any;
+import { StretchOptions } from "./StretchOptions";
+import {
+  Automation,
+  automationValueAt,
+  offsetKeyframes,
+  sortKeyframes,
+  validateKeyframes,
+} from "./Automation";
+import { createAbortError, isAbortError, throwIfAborted } from "./Abort";
+import {
+  ProcessMessage,
+  WorkerMessage,
+  WorkerResponse,
+} from "./WorkerProtocol";
+import { planSegments, stitchSegments } from "./Segments";
+import { OutputBuffer } from "./OutputBuffer";
+import { ChannelMode, outputChannelCount } from "./ChannelMode";
+import { VocalReduction, reduceVocals } from "./VocalReduction";
+
+export interface TimeRegion {
+  start: number; // seconds
+  end: number; // seconds
 }
 
-interface WorkerResponse {
-  type: "ready" | "progress" | "complete" | "error";
-  data?: any;
+export interface ShiftPitchOptions {
+  stretch?: StretchOptions;
+  region?: TimeRegion;
+  // Keyframes override `semitones` and `tempo` when present
+  automation?: Automation;
+  channelMode?: ChannelMode;
+  // Applied to the input before anything else
+  vocalReduction?: VocalReduction;
+  signal?: AbortSignal;
+}
+
+// Length of the crossfades used when splicing a processed region back in
+const REGION_CROSSFADE_SECONDS = 0.01;
+
+// Context rendered either side of a passage and then trimmed away
+const PASSAGE_MARGIN_SECONDS = 0.25;
+
+// Pending jobs fail if the worker goes this long without sending anything
+const WORKER_TIMEOUT_MS = 30000;
+
+// Upper bound on the pool, since every worker holds its own RubberBand heap
+const MAX_WORKERS = 8;
+
+// Inputs are only split when every segment gets at least this much audio
+const MIN_SEGMENT_SECONDS = 10;
+
+// Extra input rendered on each side of a segment so the stretcher has
+// settled by the time the crossfade into its neighbour starts
+const SEGMENT_OVERLAP_SECONDS = 0.5;
+
+// Length of the crossfades between neighbouring segments
+const SEGMENT_CROSSFADE_SECONDS = 0.1;
+
+// How far a segment may be shifted to line up in phase with its neighbour
+const SEGMENT_ALIGN_SECONDS = 0.01;
+
+interface PendingJob {
+  worker: Worker;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+  onOutput?: (outputChannels: Float32Array[]) => void;
+  cleanup?: () => void;
+}
+
+function createModuleWorker(): Worker {
+  return new Worker(new URL("./pitch-shifter.worker.ts", import.meta.url), {
+    type: "module",
+  });
 }
 
 export class PitchShifter {
-  private worker: Worker | null = null;
+  private workers: Worker[] = [];
   private initialized = false;
-  private workerReady = false;
+  private nextJobId = 1;
+  private pendingJobs = new Map<number, PendingJob>();
+  private watchdog: ReturnType<typeof setTimeout> | null = null;
+  private createWorker: () => Worker;
+
+  // Bundles that can't resolve the worker's URL pass their own factory
+  constructor(createWorker: () => Worker = createModuleWorker) {
+    this.createWorker = createWorker;
+  }
 
   async init() {
     if (this.initialized) return;
 
     try {
-      console.log("Initializing pitch shifter worker...");
-
-      this.worker = new Worker(
-        new URL("./pitch-shifter.worker.ts", import.meta.url),
-        {
-          type: "module",
-        }
+      const poolSize = Math.max(
+        1,
+        Math.min(navigator.hardwareConcurrency || 1, MAX_WORKERS)
       );
+      console.log(`Initializing ${poolSize} pitch shifter workers...`);
+
+      for (let i = 0; i < poolSize; i++) {
+        const worker = this.createWorker();
 
-      this.worker.onerror = (error) => {
-        console.error("Worker error:", error);
-      };
+        worker.onerror = (error) => {
+          console.error("Worker error:", error);
+        };
+        worker.onmessage = this.handleWorkerMessage.bind(this);
+        this.workers.push(worker);
+      }
 
-      await this.initWorker();
+      await Promise.all(this.workers.map((worker) => this.initWorker(worker)));
       this.initialized = true;
-      console.log("Pitch shifter worker initialized successfully");
+      console.log("Pitch shifter workers initialized successfully");
     } catch (error) {
-      console.error("Failed to initialize pitch shifter worker:", error);
+      console.error("Failed to initialize pitch shifter workers:", error);
+      this.terminate();
       throw new Error(
         `Failed to initialize pitch shifter: ${
           error instanceof Error ? error.message : String(error)
@@ -43,52 +120,161 @@ export class PitchShifter {
     }
   }
 
-  private async initWorker(): Promise<void> {
+  private async initWorker(worker: Worker): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this.worker) {
-        reject(new Error("Worker not created"));
-        return;
-      }
-
+      const id = this.nextJobId++;
       const timeout = setTimeout(() => {
+        this.pendingJobs.delete(id);
         reject(new Error("Worker initialization timeout"));
       }, 10000);
 
-      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-        const { type, data } = event.data;
-
-        if (type === "ready") {
-          clearTimeout(timeout);
-          this.workerReady = true;
-          resolve();
-        } else if (type === "error") {
-          clearTimeout(timeout);
-          reject(new Error(data));
-        }
-      };
+      this.pendingJobs.set(id, {
+        worker,
+        resolve: () => resolve(),
+        reject,
+        cleanup: () => clearTimeout(timeout),
+      });
 
-      this.worker.postMessage({ type: "init" } as WorkerMessage);
+      this.postToWorker(worker, { type: "init", id });
     });
   }
 
+  private handleWorkerMessage(event: MessageEvent<WorkerResponse>) {
+    const response = event.data;
+    const job = this.pendingJobs.get(response.id);
+
+    this.resetWatchdog();
+
+    // Responses for jobs that were cancelled or timed out are dropped
+    if (!job) return;
+
+    switch (response.type) {
+      case "ready":
+      case "complete":
+        this.finishJob(response.id);
+        job.resolve();
+        break;
+      case "progress":
+        job.onProgress?.(response.data.progress);
+        break;
+      case "output":
+        job.onOutput?.(response.data.outputChannels);
+        break;
+      case "cancelled":
+        this.finishJob(response.id);
+        job.reject(createAbortError());
+        break;
+      case "error":
+        this.finishJob(response.id);
+        job.reject(new Error(response.data));
+        break;
+    }
+  }
+
+  private finishJob(id: number) {
+    const job = this.pendingJobs.get(id);
+    if (!job) return;
+
+    this.pendingJobs.delete(id);
+    job.cleanup?.();
+    this.resetWatchdog();
+  }
+
+  // Stop a job: the worker is told to drop it and the caller is rejected now
+  private cancelJob(id: number, error: Error) {
+    const job = this.pendingJobs.get(id);
+    if (!job) return;
+
+    this.postToWorker(job.worker, { type: "cancel", id });
+    this.finishJob(id);
+    job.reject(error);
+  }
+
+  private resetWatchdog() {
+    if (this.watchdog) {
+      clearTimeout(this.watchdog);
+      this.watchdog = null;
+    }
+    if (this.pendingJobs.size === 0) return;
+
+    this.watchdog = setTimeout(() => {
+      for (const id of [...this.pendingJobs.keys()]) {
+        this.cancelJob(id, new Error("Worker processing timeout"));
+      }
+    }, WORKER_TIMEOUT_MS);
+  }
+
+  private postToWorker(
+    worker: Worker,
+    message: WorkerMessage,
+    transfer: Transferable[] = []
+  ) {
+    worker.postMessage(message, transfer);
+  }
+
+  // The worker with the fewest jobs in flight, so segments spread evenly
+  private leastBusyWorker(): Worker {
+    const load = new Map(this.workers.map((worker) => [worker, 0]));
+    for (const job of this.pendingJobs.values()) {
+      load.set(job.worker, (load.get(job.worker) ?? 0) + 1);
+    }
+
+    return this.workers.reduce((best, worker) =>
+      load.get(worker)! < load.get(best)! ? worker : best
+    );
+  }
+
   async shiftPitch(
     audioBuffer: AudioBuffer,
     semitones: number,
     tempo: number = 1.0,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    options: ShiftPitchOptions = {}
   ): Promise<AudioBuffer> {
-    if (!this.initialized || !this.worker || !this.workerReady) {
+    const {
+      stretch: stretchOptions = {},
+      region,
+      channelMode = "all",
+      vocalReduction = "off",
+      signal,
+    } = options;
+    const automation =
+      options.automation && options.automation.keyframes.length > 0
+        ? options.automation
+        : undefined;
+
+    if (!this.initialized || this.workers.length === 0) {
       throw new Error("Pitch shifter not initialized");
     }
 
-    if (semitones === 0 && tempo === 1.0) {
+    if (
+      semitones === 0 &&
+      tempo === 1.0 &&
+      !automation &&
+      channelMode === "all" &&
+      vocalReduction === "off"
+    ) {
       return audioBuffer;
     }
 
     try {
-      console.log(
-        `Shifting pitch by ${semitones} semitones and tempo to ${tempo}x...`
-      );
+      throwIfAborted(signal);
+
+      if (automation) {
+        console.log(
+          `Shifting pitch and tempo with ${automation.keyframes.length} keyframes...`,
+          automation,
+          stretchOptions,
+          region ?? "whole file"
+        );
+        validateKeyframes(automation.keyframes);
+      } else {
+        console.log(
+          `Shifting pitch by ${semitones} semitones and tempo to ${tempo}x...`,
+          stretchOptions,
+          region ?? "whole file"
+        );
+      }
 
       if (typeof semitones !== "number" || !isFinite(semitones)) {
         throw new Error(`Invalid semitones value: ${semitones}`);
@@ -108,36 +294,60 @@ export class PitchShifter {
         throw new Error(`Invalid channels: ${channels}`);
       }
 
-      const audioData: Float32Array[] = [];
+      const [startSample, endSample] = region
+        ? this.regionToSamples(region, audioBuffer)
+        : [0, audioBuffer.length];
+
+      // Views only; the pool copies just what each worker needs
+      let audioData: Float32Array[] = [];
       for (let i = 0; i < channels; i++) {
-        audioData.push(audioBuffer.getChannelData(i));
+        audioData.push(
+          audioBuffer.getChannelData(i).subarray(startSample, endSample)
+        );
+      }
+
+      // Only the rendered span; a region is spliced back into the original
+      if (vocalReduction !== "off") {
+        console.log(`Reducing vocals (${vocalReduction})...`);
+        audioData = reduceVocals(audioData, sampleRate, vocalReduction);
       }
 
-      const outputChannels = await this.processInWorker(
+      const outputChannels = await this.processInPool(
         {
           audioData,
           sampleRate,
           channels,
           semitones,
           tempo,
+          stretchOptions,
+          // Keyframe times are relative to the start of what the worker gets
+          automation:
+            automation && region
+              ? {
+                  ...automation,
+                  keyframes: offsetKeyframes(
+                    automation.keyframes,
+                    startSample / sampleRate
+                  ),
+                }
+              : automation,
+          channelMode,
         },
-        onProgress
+        onProgress,
+        signal
       );
 
-      const outputLength = outputChannels[0].length;
-      const outputBuffer = new AudioContext().createBuffer(
-        channels,
-        outputLength,
-        sampleRate
-      );
-
-      for (let i = 0; i < channels; i++) {
-        outputBuffer.copyToChannel(outputChannels[i], i);
-      }
+      const outputBuffer = region
+        ? this.spliceRegion(audioBuffer, outputChannels, startSample, endSample)
+        : this.createBuffer(outputChannels, sampleRate);
 
       console.log("Pitch shifting completed successfully");
       return outputBuffer;
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log("Pitch shifting cancelled");
+        throw error;
+      }
       console.error("Error during pitch shifting:", error);
       throw new Error(
         `Pitch shifting failed: ${
@@ -147,60 +357,298 @@ export class PitchShifter {
     }
   }
 
+  /**
+   * Render just `region` at a constant pitch and tempo, returning only that
+   * stretch of audio. A little context either side is rendered too and then
+   * trimmed, so RubberBand has settled by the time the passage begins.
+   */
+  async renderPassage(
+    audioBuffer: AudioBuffer,
+    region: TimeRegion,
+    semitones: number,
+    tempo: number,
+    options: Omit<ShiftPitchOptions, "region" | "automation"> = {}
+  ): Promise<AudioBuffer> {
+    const [startSample, endSample] = this.regionToSamples(region, audioBuffer);
+    const margin = Math.round(PASSAGE_MARGIN_SECONDS * audioBuffer.sampleRate);
+    const from = Math.max(0, startSample - margin);
+    const to = Math.min(audioBuffer.length, endSample + margin);
+
+    const input: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      input.push(audioBuffer.getChannelData(ch).slice(from, to));
+    }
+    const rendered = await this.shiftPitch(
+      this.createBuffer(input, audioBuffer.sampleRate),
+      semitones,
+      tempo,
+      undefined,
+      options
+    );
+
+    const offset = Math.round((startSample - from) / tempo);
+    const length = Math.max(1, Math.round((endSample - startSample) / tempo));
+    const output: Float32Array[] = [];
+    for (let ch = 0; ch < rendered.numberOfChannels; ch++) {
+      output.push(rendered.getChannelData(ch).slice(offset, offset + length));
+    }
+    return this.createBuffer(output, rendered.sampleRate);
+  }
+
+  private regionToSamples(
+    region: TimeRegion,
+    audioBuffer: AudioBuffer
+  ): [number, number] {
+    const { start, end } = region;
+    if (!isFinite(start) || !isFinite(end) || start < 0 || end <= start) {
+      throw new Error(`Invalid region: ${start}s - ${end}s`);
+    }
+    if (start >= audioBuffer.duration) {
+      throw new Error(
+        `Region starts after the end of the audio (${audioBuffer.duration.toFixed(2)}s)`
+      );
+    }
+
+    const startSample = Math.floor(start * audioBuffer.sampleRate);
+    const endSample = Math.min(
+      audioBuffer.length,
+      Math.ceil(end * audioBuffer.sampleRate)
+    );
+    return [startSample, endSample];
+  }
+
+  /**
+   * Replace [startSample, endSample) of the original with the processed
+   * region, which may be longer or shorter when the tempo changed, and
+   * crossfade both edges so the joins don't click.
+   */
+  private spliceRegion(
+    original: AudioBuffer,
+    processed: Float32Array[],
+    startSample: number,
+    endSample: number
+  ): AudioBuffer {
+    const processedLength = processed[0].length;
+    const tailLength = original.length - endSample;
+    const fadeLength = Math.min(
+      Math.round(REGION_CROSSFADE_SECONDS * original.sampleRate),
+      Math.floor(processedLength / 2),
+      Math.floor((endSample - startSample) / 2)
+    );
+
+    const outputChannels: Float32Array[] = [];
+    for (let ch = 0; ch < original.numberOfChannels; ch++) {
+      const source = original.getChannelData(ch);
+      // A mono render of a stereo region goes into every channel
+      const region = processed[Math.min(ch, processed.length - 1)];
+      const output = new Float32Array(
+        startSample + processedLength + tailLength
+      );
+
+      output.set(source.subarray(0, startSample), 0);
+      output.set(region, startSample);
+      output.set(source.subarray(endSample), startSample + processedLength);
+
+      for (let i = 0; i < fadeLength; i++) {
+        const fadeIn = Math.sin((0.5 * Math.PI * (i + 0.5)) / fadeLength);
+        const fadeOut = Math.cos((0.5 * Math.PI * (i + 0.5)) / fadeLength);
+
+        // Leading edge: original continues into the region and fades out
+        output[startSample + i] =
+          source[startSample + i] * fadeOut + region[i] * fadeIn;
+
+        // Trailing edge: original fades back in ahead of the untouched tail
+        const regionIndex = processedLength - fadeLength + i;
+        output[startSample + regionIndex] =
+          region[regionIndex] * fadeOut +
+          source[endSample - fadeLength + i] * fadeIn;
+      }
+
+      outputChannels.push(output);
+    }
+
+    return this.createBuffer(outputChannels, original.sampleRate);
+  }
+
+  private createBuffer(
+    channelData: Float32Array[],
+    sampleRate: number
+  ): AudioBuffer {
+    const outputBuffer = new AudioBuffer({
+      numberOfChannels: channelData.length,
+      length: channelData[0].length,
+      sampleRate,
+    });
+
+    for (let i = 0; i < channelData.length; i++) {
+      outputBuffer.copyToChannel(channelData[i], i);
+    }
+
+    return outputBuffer;
+  }
+
+  /**
+   * Render across the worker pool. Long inputs without automation are split
+   * into overlapping segments rendered in parallel and stitched back
+   * together; everything else goes to a single worker. `data.audioData` may
+   * be views into an AudioBuffer: each worker is sent its own copy, which is
+   * transferred rather than cloned.
+   */
+  private async processInPool(
+    data: ProcessMessage,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Float32Array[]> {
+    const length = data.audioData[0].length;
+    const segmentCount = Math.min(
+      this.workers.length,
+      Math.floor(length / (MIN_SEGMENT_SECONDS * data.sampleRate))
+    );
+
+    if (data.automation || segmentCount < 2) {
+      return this.processInWorker(
+        {
+          ...data,
+          audioData: data.audioData.map((channel) => channel.slice()),
+        },
+        onProgress,
+        signal
+      );
+    }
+
+    const tempo = data.tempo ?? 1.0;
+    const segments = planSegments(
+      length,
+      segmentCount,
+      Math.round(SEGMENT_OVERLAP_SECONDS * data.sampleRate)
+    );
+    console.log(`Rendering ${segmentCount} segments in parallel`);
+
+    // Overall progress is each segment's progress weighted by its length
+    const progress = segments.map(() => 0);
+    const reportProgress = () => {
+      let done = 0;
+      segments.forEach((segment, i) => {
+        done += progress[i] * (segment.renderEnd - segment.renderStart);
+      });
+      const total = segments.reduce(
+        (sum, segment) => sum + segment.renderEnd - segment.renderStart,
+        0
+      );
+      onProgress?.(done / total);
+    };
+
+    // One failed segment stops the rest, as does the caller's signal
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const rendered = await Promise.all(
+        segments.map((segment, i) =>
+          this.processInWorker(
+            {
+              ...data,
+              audioData: data.audioData.map((channel) =>
+                channel.slice(segment.renderStart, segment.renderEnd)
+              ),
+            },
+            (value) => {
+              progress[i] = value;
+              reportProgress();
+            },
+            controller.signal
+          ).catch((error) => {
+            controller.abort();
+            throw error;
+          })
+        )
+      );
+
+      return stitchSegments(
+        segments,
+        rendered,
+        tempo,
+        Math.round(SEGMENT_CROSSFADE_SECONDS * data.sampleRate),
+        Math.round(SEGMENT_ALIGN_SECONDS * data.sampleRate)
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
   private async processInWorker(
-    data: {
-      audioData: Float32Array[];
-      sampleRate: number;
-      channels: number;
-      semitones: number;
-      tempo?: number;
-    },
-    onProgress?: (progress: number) => void
+    data: ProcessMessage,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<Float32Array[]> {
     return new Promise((resolve, reject) => {
-      if (!this.worker) {
+      if (this.workers.length === 0) {
         reject(new Error("Worker not available"));
         return;
       }
 
-      const timeout = setTimeout(() => {
-        reject(new Error("Worker processing timeout"));
-      }, 30000);
-
-      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-        const { type, data: responseData } = event.data;
-
-        switch (type) {
-          case "progress":
-            if (onProgress) {
-              onProgress(responseData.progress);
-            }
-            break;
-          case "complete":
-            clearTimeout(timeout);
-            resolve(responseData.outputChannels);
-            break;
-          case "error":
-            clearTimeout(timeout);
-            reject(new Error(responseData));
-            break;
-        }
-      };
-
-      this.worker.postMessage({
-        type: "process",
-        data,
-      } as WorkerMessage);
+      const worker = this.leastBusyWorker();
+      const id = this.nextJobId++;
+      const output = new OutputBuffer(
+        outputChannelCount(data.channelMode ?? "all", data.channels),
+        this.estimateOutputLength(data)
+      );
+      const onAbort = () => this.cancelJob(id, createAbortError());
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pendingJobs.set(id, {
+        worker,
+        resolve: () => resolve(output.toChannels()),
+        reject,
+        onProgress,
+        onOutput: (block) => output.append(block),
+        cleanup: () => signal?.removeEventListener("abort", onAbort),
+      });
+      this.resetWatchdog();
+
+      this.postToWorker(
+        worker,
+        { type: "process", id, data },
+        data.audioData.map((channel) => channel.buffer)
+      );
     });
   }
 
+  // Output length implied by the tempo, or by the tempo curve if automated
+  private estimateOutputLength(data: ProcessMessage): number {
+    const inputLength = data.audioData[0].length;
+    if (!data.automation) {
+      return inputLength / (data.tempo ?? 1.0);
+    }
+
+    const keyframes = sortKeyframes(data.automation.keyframes);
+    const interpolation = data.automation.interpolation ?? "linear";
+    const step = Math.round(data.sampleRate * 0.1);
+    let length = 0;
+    for (let position = 0; position < inputLength; position += step) {
+      const { tempo } = automationValueAt(
+        keyframes,
+        position / data.sampleRate,
+        interpolation
+      );
+      length += Math.min(step, inputLength - position) / tempo;
+    }
+    return length;
+  }
+
   terminate() {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    for (const id of [...this.pendingJobs.keys()]) {
+      const job = this.pendingJobs.get(id)!;
+      this.finishJob(id);
+      job.reject(new Error("Pitch shifter terminated"));
+    }
+
+    for (const worker of this.workers) {
+      worker.terminate();
     }
+    this.workers = [];
     this.initialized = false;
-    this.workerReady = false;
   }
 
   semitonesToRatio(semitones: number): number {
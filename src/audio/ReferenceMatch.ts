@@ -0,0 +1,44 @@
+import { KeyEstimate, semitonesBetweenKeys } from "./KeyDetector";
+import { TuningEstimate } from "./TuningDetector";
+
+export interface TrackAnalysis {
+  key: KeyEstimate;
+  tuning: TuningEstimate | null;
+}
+
+export interface ReferenceMatch {
+  semitones: number;
+  cents: number; // -50 to 50, so it fits the fine slider
+}
+
+// Minor keys are compared through their relative major, so A minor against
+// C major counts as the same key rather than three semitones apart
+function relativeMajorTonic(key: KeyEstimate): number {
+  return key.mode === "minor" ? (key.tonic + 3) % 12 : key.tonic;
+}
+
+/**
+ * Shift that moves `source` onto the key and tuning of `reference`: the
+ * smallest transposition between the keys plus the difference between the
+ * two tuning offsets, with whole semitones folded out of the cents.
+ */
+export function matchReference(
+  source: TrackAnalysis,
+  reference: TrackAnalysis
+): ReferenceMatch {
+  let semitones = semitonesBetweenKeys(
+    relativeMajorTonic(source.key),
+    relativeMajorTonic(reference.key)
+  );
+  let cents = (reference.tuning?.cents ?? 0) - (source.tuning?.cents ?? 0);
+
+  if (cents > 50) {
+    cents -= 100;
+    semitones += 1;
+  } else if (cents < -50) {
+    cents += 100;
+    semitones -= 1;
+  }
+
+  return { semitones, cents: Math.round(cents) };
+}
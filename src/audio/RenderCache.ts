@@ -0,0 +1,309 @@
+import { ShiftPitchOptions } from "./PitchShifter";
+import { resolveStretchOptions } from "./StretchOptions";
+
+export interface RenderCacheOptions {
+  // Upper bound on the samples held in memory, in bytes
+  maxMemoryBytes?: number;
+  // Also keep renders in IndexedDB so they survive a reload
+  persistent?: boolean;
+  maxPersistentBytes?: number;
+}
+
+// Samples live in one store and the small bookkeeping records in another,
+// so eviction can scan entries without loading any audio
+interface StoredRender {
+  key: string;
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+interface StoredEntry {
+  key: string;
+  size: number;
+  lastUsed: number;
+}
+
+const DB_NAME = "pitch-shifter-cache";
+const RENDER_STORE = "renders";
+const ENTRY_STORE = "entries";
+
+/**
+ * Remembers finished renders so returning to settings that were already
+ * rendered doesn't run RubberBand again. Entries are keyed by a hash of the
+ * decoded input together with everything that affects the output, and the
+ * least recently used ones are evicted once the size limit is reached.
+ */
+export class RenderCache {
+  private memory = new Map<string, AudioBuffer>();
+  private memoryBytes = 0;
+  private maxMemoryBytes: number;
+  private maxPersistentBytes: number;
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  // Hashing a long file takes a while, so each decoded buffer is hashed once
+  private inputHashes = new WeakMap<AudioBuffer, Promise<string>>();
+
+  constructor(options: RenderCacheOptions = {}) {
+    this.maxMemoryBytes = options.maxMemoryBytes ?? 512 * 1024 * 1024;
+    this.maxPersistentBytes = options.maxPersistentBytes ?? 1024 * 1024 * 1024;
+
+    this.setPersistent(options.persistent ?? false);
+  }
+
+  // Turning persistence off keeps what's stored until clear() removes it
+  setPersistent(persistent: boolean) {
+    if (!persistent) {
+      this.closeDatabase();
+    } else if (!this.db && typeof indexedDB !== "undefined") {
+      this.db = this.openDatabase().catch((error) => {
+        console.warn("Render cache persistence unavailable:", error);
+        return null;
+      });
+    }
+  }
+
+  async keyFor(
+    audioBuffer: AudioBuffer,
+    semitones: number,
+    tempo: number,
+    options: ShiftPitchOptions = {}
+  ): Promise<string> {
+    const inputHash = await this.hashInput(audioBuffer);
+    const automation =
+      options.automation && options.automation.keyframes.length > 0
+        ? options.automation
+        : null;
+
+    return JSON.stringify({
+      input: inputHash,
+      semitones: automation ? null : semitones,
+      tempo: automation ? null : tempo,
+      stretch: resolveStretchOptions(options.stretch),
+      region: options.region ?? null,
+      channelMode: options.channelMode ?? "all",
+      vocalReduction: options.vocalReduction ?? "off",
+      automation,
+    });
+  }
+
+  // Cached buffers are shared, so callers must treat them as read-only
+  async get(key: string): Promise<AudioBuffer | null> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      // Re-insert so Map order stays least to most recently used
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      return cached;
+    }
+
+    const stored = await this.readPersistent(key);
+    if (!stored) return null;
+
+    const audioBuffer = new AudioBuffer({
+      numberOfChannels: stored.channels.length,
+      length: stored.channels[0].length,
+      sampleRate: stored.sampleRate,
+    });
+    stored.channels.forEach((channel, ch) =>
+      audioBuffer.copyToChannel(channel, ch)
+    );
+
+    this.remember(key, audioBuffer);
+    return audioBuffer;
+  }
+
+  async set(key: string, audioBuffer: AudioBuffer) {
+    this.remember(key, audioBuffer);
+    await this.writePersistent(key, audioBuffer);
+  }
+
+  // Forget every render, including any kept in IndexedDB
+  async clear() {
+    this.memory.clear();
+    this.memoryBytes = 0;
+    if (typeof indexedDB === "undefined") return;
+
+    const persistent = this.db !== null;
+    this.closeDatabase();
+    await this.request(indexedDB.deleteDatabase(DB_NAME));
+    this.setPersistent(persistent);
+  }
+
+  private remember(key: string, audioBuffer: AudioBuffer) {
+    const size = this.sizeOf(audioBuffer);
+    if (size > this.maxMemoryBytes) return;
+
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memory.delete(key);
+      this.memoryBytes -= this.sizeOf(existing);
+    }
+
+    this.memory.set(key, audioBuffer);
+    this.memoryBytes += size;
+
+    for (const [oldKey, old] of this.memory) {
+      if (this.memoryBytes <= this.maxMemoryBytes) break;
+      this.memory.delete(oldKey);
+      this.memoryBytes -= this.sizeOf(old);
+    }
+  }
+
+  private sizeOf(audioBuffer: AudioBuffer): number {
+    return audioBuffer.length * audioBuffer.numberOfChannels * 4;
+  }
+
+  private hashInput(audioBuffer: AudioBuffer): Promise<string> {
+    let hash = this.inputHashes.get(audioBuffer);
+    if (!hash) {
+      hash = this.digestChannels(audioBuffer);
+      this.inputHashes.set(audioBuffer, hash);
+    }
+    return hash;
+  }
+
+  private async digestChannels(audioBuffer: AudioBuffer): Promise<string> {
+    const digests: ArrayBuffer[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      digests.push(
+        await crypto.subtle.digest("SHA-256", audioBuffer.getChannelData(ch))
+      );
+    }
+
+    const combined = new Uint8Array(digests.length * 32 + 4);
+    digests.forEach((digest, i) =>
+      combined.set(new Uint8Array(digest), i * 32)
+    );
+    new DataView(combined.buffer).setUint32(
+      digests.length * 32,
+      audioBuffer.sampleRate
+    );
+
+    const digest = await crypto.subtle.digest("SHA-256", combined);
+    return Array.from(new Uint8Array(digest), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RENDER_STORE, { keyPath: "key" });
+        db.createObjectStore(ENTRY_STORE, { keyPath: "key" }).createIndex(
+          "lastUsed",
+          "lastUsed"
+        );
+      };
+      request.onsuccess = () => {
+        // Let a clear() in another tab delete the database
+        request.result.onversionchange = () => request.result.close();
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private closeDatabase() {
+    this.db?.then((db) => db?.close());
+    this.db = null;
+  }
+
+  private async readPersistent(key: string): Promise<StoredRender | null> {
+    const db = await this.db;
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction(
+        [RENDER_STORE, ENTRY_STORE],
+        "readwrite"
+      );
+      const entries = transaction.objectStore(ENTRY_STORE);
+      const entry = await this.request<StoredEntry | undefined>(
+        entries.get(key)
+      );
+      if (!entry) return null;
+
+      // Touch the entry so eviction sees it as recently used
+      entries.put({ ...entry, lastUsed: Date.now() });
+      const stored = await this.request<StoredRender | undefined>(
+        transaction.objectStore(RENDER_STORE).get(key)
+      );
+      return stored ?? null;
+    } catch (error) {
+      console.warn("Failed to read cached render:", error);
+      return null;
+    }
+  }
+
+  private async writePersistent(key: string, audioBuffer: AudioBuffer) {
+    const db = await this.db;
+    const size = this.sizeOf(audioBuffer);
+    if (!db || size > this.maxPersistentBytes) return;
+
+    try {
+      const channels: Float32Array[] = [];
+      for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channels.push(audioBuffer.getChannelData(ch));
+      }
+
+      const transaction = db.transaction(
+        [RENDER_STORE, ENTRY_STORE],
+        "readwrite"
+      );
+      transaction.objectStore(RENDER_STORE).put({
+        key,
+        sampleRate: audioBuffer.sampleRate,
+        channels,
+      } satisfies StoredRender);
+      transaction.objectStore(ENTRY_STORE).put({
+        key,
+        size,
+        lastUsed: Date.now(),
+      } satisfies StoredEntry);
+      await this.complete(transaction);
+
+      await this.evictPersistent(db);
+    } catch (error) {
+      // Most likely the storage quota; the in-memory copy still works
+      console.warn("Failed to store cached render:", error);
+    }
+  }
+
+  // Delete least recently used entries until the store fits its limit
+  private async evictPersistent(db: IDBDatabase) {
+    const transaction = db.transaction(
+      [RENDER_STORE, ENTRY_STORE],
+      "readwrite"
+    );
+    const entries = await this.request<StoredEntry[]>(
+      transaction.objectStore(ENTRY_STORE).index("lastUsed").getAll()
+    );
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      if (total <= this.maxPersistentBytes) break;
+      transaction.objectStore(RENDER_STORE).delete(entry.key);
+      transaction.objectStore(ENTRY_STORE).delete(entry.key);
+      total -= entry.size;
+    }
+
+    await this.complete(transaction);
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
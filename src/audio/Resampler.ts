@@ -0,0 +1,79 @@
+// Zero crossings of the sinc kernel on each side of the centre tap
+const KERNEL_HALF_WIDTH = 24;
+// Kernel values are tabulated at this many points per zero crossing and
+// linearly interpolated in between
+const TABLE_RESOLUTION = 512;
+const KAISER_BETA = 8.6;
+// Passband edge as a fraction of the lower Nyquist frequency
+const CUTOFF = 0.95;
+
+// Zeroth-order modified Bessel function, for the Kaiser window
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+let kernelTable: Float32Array | null = null;
+
+// One side of a Kaiser-windowed sinc, indexed by distance in zero crossings
+function getKernelTable(): Float32Array {
+  if (kernelTable) return kernelTable;
+
+  const size = KERNEL_HALF_WIDTH * TABLE_RESOLUTION + 1;
+  kernelTable = new Float32Array(size + 1);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i < size; i++) {
+    const x = i / TABLE_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const ratio = x / KERNEL_HALF_WIDTH;
+    kernelTable[i] =
+      (sinc * besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio))) / norm;
+  }
+  return kernelTable;
+}
+
+/**
+ * Band-limited sample rate conversion by windowed-sinc interpolation. When
+ * lowering the rate the kernel is widened so content above the new Nyquist
+ * frequency is filtered out rather than aliased.
+ */
+export function resample(
+  channels: Float32Array[],
+  fromRate: number,
+  toRate: number
+): Float32Array[] {
+  if (fromRate === toRate) return channels;
+
+  const table = getKernelTable();
+  const step = fromRate / toRate;
+  const cutoff = CUTOFF * Math.min(1, toRate / fromRate);
+  const reach = KERNEL_HALF_WIDTH / cutoff; // in input samples
+  const outputLength = Math.round((channels[0].length * toRate) / fromRate);
+
+  return channels.map((input) => {
+    const output = new Float32Array(outputLength);
+    for (let n = 0; n < outputLength; n++) {
+      const position = n * step;
+      const first = Math.max(0, Math.ceil(position - reach));
+      const last = Math.min(input.length - 1, Math.floor(position + reach));
+
+      let sum = 0;
+      for (let k = first; k <= last; k++) {
+        const index = Math.abs(position - k) * cutoff * TABLE_RESOLUTION;
+        const whole = Math.floor(index);
+        const fraction = index - whole;
+        sum +=
+          input[k] *
+          (table[whole] + (table[whole + 1] - table[whole]) * fraction);
+      }
+      output[n] = sum * cutoff;
+    }
+    return output;
+  });
+}
@@ -0,0 +1,87 @@
+export type RubberBandFunctions = Record<string, (...args: number[]) => any>;
+
+export interface RubberBand {
+  module: any;
+  functions: RubberBandFunctions;
+}
+
+/**
+ * Instantiate the RubberBand WASM module and wrap the C API functions used
+ * by the worker and the live preview worklet.
+ */
+export async function loadRubberBand(): Promise<RubberBand> {
+  const RubberbandModule = await import("@echogarden/rubberband-wasm");
+  const module: any = await RubberbandModule.default();
+
+  const functions: RubberBandFunctions = {
+    rubberband_new: module.cwrap("rubberband_new", "number", [
+      "number",
+      "number",
+      "number",
+      "number",
+      "number",
+    ]),
+    rubberband_delete: module.cwrap("rubberband_delete", "void", ["number"]),
+    rubberband_reset: module.cwrap("rubberband_reset", "void", ["number"]),
+    rubberband_set_pitch_scale: module.cwrap(
+      "rubberband_set_pitch_scale",
+      "void",
+      ["number", "number"]
+    ),
+    rubberband_set_time_ratio: module.cwrap(
+      "rubberband_set_time_ratio",
+      "void",
+      ["number", "number"]
+    ),
+    rubberband_process: module.cwrap("rubberband_process", "void", [
+      "number",
+      "number",
+      "number",
+      "number",
+    ]),
+    rubberband_available: module.cwrap("rubberband_available", "number", [
+      "number",
+    ]),
+    rubberband_retrieve: module.cwrap("rubberband_retrieve", "number", [
+      "number",
+      "number",
+      "number",
+    ]),
+    rubberband_get_samples_required: module.cwrap(
+      "rubberband_get_samples_required",
+      "number",
+      ["number"]
+    ),
+    rubberband_set_max_process_size: module.cwrap(
+      "rubberband_set_max_process_size",
+      "void",
+      ["number", "number"]
+    ),
+    rubberband_get_latency: module.cwrap("rubberband_get_latency", "number", [
+      "number",
+    ]),
+    rubberband_study: module.cwrap("rubberband_study", "void", [
+      "number",
+      "number",
+      "number",
+      "number",
+    ]),
+    rubberband_set_expected_input_duration: module.cwrap(
+      "rubberband_set_expected_input_duration",
+      "void",
+      ["number", "number"]
+    ),
+    rubberband_get_preferred_start_pad: module.cwrap(
+      "rubberband_get_preferred_start_pad",
+      "number",
+      ["number"]
+    ),
+    rubberband_get_start_delay: module.cwrap(
+      "rubberband_get_start_delay",
+      "number",
+      ["number"]
+    ),
+  };
+
+  return { module, functions };
+}
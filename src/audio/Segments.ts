@@ -0,0 +1,141 @@
+/**
+ * Splitting long inputs into overlapping segments that can be stretched
+ * independently, and joining the results back into one timeline.
+ */
+
+export interface Segment {
+  // Part of the input this segment is responsible for
+  coreStart: number;
+  coreEnd: number;
+  // Part actually rendered, extended by the overlap on both sides
+  renderStart: number;
+  renderEnd: number;
+}
+
+export function planSegments(
+  length: number,
+  count: number,
+  overlap: number
+): Segment[] {
+  const segments: Segment[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const coreStart = Math.round((length * i) / count);
+    const coreEnd = Math.round((length * (i + 1)) / count);
+    segments.push({
+      coreStart,
+      coreEnd,
+      renderStart: Math.max(0, coreStart - overlap),
+      renderEnd: Math.min(length, coreEnd + overlap),
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Place each rendered segment at its position on the output timeline
+ * (input position / tempo) and crossfade neighbours around each boundary.
+ * The overlap must cover at least half the fade on the input side.
+ *
+ * Independently rendered segments don't share phase, so each one is nudged
+ * by up to `maxLag` samples to line up with its predecessor before fading;
+ * otherwise steady tones partly cancel out across the join. Entries of
+ * `rendered` are released as they are consumed to keep peak memory down.
+ */
+export function stitchSegments(
+  segments: Segment[],
+  rendered: Float32Array[][],
+  tempo: number,
+  fadeLength: number,
+  maxLag = 0
+): Float32Array[] {
+  const channels = rendered[0].length;
+  const last = rendered.length - 1;
+  const halfFade = Math.floor(fadeLength / 2);
+  const boundaries = segments.map((segment) =>
+    Math.round(segment.coreStart / tempo)
+  );
+  const offsets = segments.map((segment) =>
+    Math.round(segment.renderStart / tempo)
+  );
+
+  const sampleAt = (segment: number, ch: number, position: number) => {
+    const data = rendered[segment][ch];
+    const index = position - offsets[segment];
+    return index >= 0 && index < data.length ? data[index] : 0;
+  };
+
+  // Whether each join is correlated enough for an equal-gain crossfade
+  const coherent: boolean[] = [false];
+  for (let i = 1; i <= last; i++) {
+    const fadeStart = boundaries[i] - halfFade;
+    const base = offsets[i];
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    let bestCorrelation = 0;
+
+    for (let lag = -maxLag; lag <= maxLag; lag++) {
+      offsets[i] = base + lag;
+      let cross = 0;
+      let previousEnergy = 0;
+      let currentEnergy = 0;
+      for (let ch = 0; ch < channels; ch++) {
+        for (let j = 0; j < 2 * halfFade; j++) {
+          const a = sampleAt(i - 1, ch, fadeStart + j);
+          const b = sampleAt(i, ch, fadeStart + j);
+          cross += a * b;
+          previousEnergy += a * a;
+          currentEnergy += b * b;
+        }
+      }
+      if (cross > bestScore) {
+        bestScore = cross;
+        bestLag = lag;
+        bestCorrelation =
+          cross / (Math.sqrt(previousEnergy * currentEnergy) || 1);
+      }
+    }
+
+    offsets[i] = base + bestLag;
+    coherent.push(bestCorrelation > 0.5);
+  }
+
+  const outputLength = offsets[last] + rendered[last][0].length;
+  const outputChannels = Array.from(
+    { length: channels },
+    () => new Float32Array(outputLength)
+  );
+
+  for (let i = 0; i <= last; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const output = outputChannels[ch];
+      const from = i === 0 ? 0 : boundaries[i] + halfFade;
+      const to = i === last ? outputLength : boundaries[i + 1] - halfFade;
+      for (let position = from; position < to; position++) {
+        output[position] = sampleAt(i, ch, position);
+      }
+
+      if (i > 0) {
+        const fadeStart = boundaries[i] - halfFade;
+        for (let j = 0; j < 2 * halfFade; j++) {
+          const position = fadeStart + j;
+          const angle = (0.5 * Math.PI * (j + 0.5)) / (2 * halfFade);
+          // Equal-gain for phase-aligned material, equal-power otherwise
+          const fadeIn = coherent[i] ? Math.sin(angle) ** 2 : Math.sin(angle);
+          const fadeOut = coherent[i] ? Math.cos(angle) ** 2 : Math.cos(angle);
+          output[position] =
+            sampleAt(i - 1, ch, position) * fadeOut +
+            sampleAt(i, ch, position) * fadeIn;
+        }
+      }
+    }
+
+    // The previous segment is fully used now, so let it be collected
+    if (i > 0) {
+      rendered[i - 1] = [];
+    }
+  }
+
+  return outputChannels;
+}
@@ -0,0 +1,119 @@
+export type StretchEngine = "faster" | "finer";
+export type StretchTransients = "crisp" | "mixed" | "smooth";
+export type StretchDetector = "compound" | "percussive" | "soft";
+export type StretchPhase = "laminar" | "independent";
+export type StretchWindow = "standard" | "short" | "long";
+export type StretchPitchMode = "speed" | "quality" | "consistency";
+
+/**
+ * Quality controls for the RubberBand stretcher. The "finer" (R3) engine
+ * ignores the transients, detector and phase settings and only honours the
+ * "short" window; the rest apply to the "faster" (R2) engine.
+ */
+export interface StretchOptions {
+  engine?: StretchEngine;
+  transients?: StretchTransients;
+  detector?: StretchDetector;
+  phase?: StretchPhase;
+  window?: StretchWindow;
+  pitchMode?: StretchPitchMode;
+  preserveFormants?: boolean;
+}
+
+export const DEFAULT_STRETCH_OPTIONS: Required<StretchOptions> = {
+  engine: "faster",
+  transients: "smooth",
+  detector: "soft",
+  phase: "laminar",
+  window: "standard",
+  pitchMode: "speed",
+  preserveFormants: false,
+};
+
+// RubberBandOption bits from rubberband-c.h
+const OPTION_PROCESS_REALTIME = 0x00000001;
+const OPTION_STRETCH_PRECISE = 0x00000010;
+
+const TRANSIENTS_BITS: Record<StretchTransients, number> = {
+  crisp: 0x00000000,
+  mixed: 0x00000100,
+  smooth: 0x00000200,
+};
+
+const DETECTOR_BITS: Record<StretchDetector, number> = {
+  compound: 0x00000000,
+  percussive: 0x00000400,
+  soft: 0x00000800,
+};
+
+const PHASE_BITS: Record<StretchPhase, number> = {
+  laminar: 0x00000000,
+  independent: 0x00002000,
+};
+
+const WINDOW_BITS: Record<StretchWindow, number> = {
+  standard: 0x00000000,
+  short: 0x00100000,
+  long: 0x00200000,
+};
+
+const PITCH_MODE_BITS: Record<StretchPitchMode, number> = {
+  speed: 0x00000000,
+  quality: 0x02000000,
+  consistency: 0x04000000,
+};
+
+const FORMANT_PRESERVED = 0x01000000;
+
+const ENGINE_BITS: Record<StretchEngine, number> = {
+  faster: 0x00000000,
+  finer: 0x20000000,
+};
+
+// Every value each option accepts
+export const STRETCH_OPTION_VALUES: {
+  [K in keyof StretchOptions]-?: readonly Required<StretchOptions>[K][];
+} = {
+  engine: Object.keys(ENGINE_BITS) as StretchEngine[],
+  transients: Object.keys(TRANSIENTS_BITS) as StretchTransients[],
+  detector: Object.keys(DETECTOR_BITS) as StretchDetector[],
+  phase: Object.keys(PHASE_BITS) as StretchPhase[],
+  window: Object.keys(WINDOW_BITS) as StretchWindow[],
+  pitchMode: Object.keys(PITCH_MODE_BITS) as StretchPitchMode[],
+  preserveFormants: [false, true],
+};
+
+export function resolveStretchOptions(
+  options: StretchOptions = {}
+): Required<StretchOptions> {
+  // Keys set to undefined fall back to the default rather than clearing it
+  const given: StretchOptions = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+  return { ...DEFAULT_STRETCH_OPTIONS, ...given };
+}
+
+export function toRubberBandOptions(
+  options: StretchOptions = {},
+  realTime: boolean = false
+): number {
+  const resolved = resolveStretchOptions(options);
+
+  const bits = [
+    realTime ? OPTION_PROCESS_REALTIME : 0,
+    OPTION_STRETCH_PRECISE,
+    ENGINE_BITS[resolved.engine],
+    TRANSIENTS_BITS[resolved.transients],
+    DETECTOR_BITS[resolved.detector],
+    PHASE_BITS[resolved.phase],
+    WINDOW_BITS[resolved.window],
+    PITCH_MODE_BITS[resolved.pitchMode],
+    resolved.preserveFormants ? FORMANT_PRESERVED : 0,
+  ];
+
+  if (bits.some((bit) => bit === undefined)) {
+    throw new Error(`Invalid stretch options: ${JSON.stringify(options)}`);
+  }
+
+  return bits.reduce((flags, bit) => flags | bit, 0);
+}
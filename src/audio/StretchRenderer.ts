@@ -0,0 +1,415 @@
+import { StretchOptions, toRubberBandOptions } from "./StretchOptions";
+import { Automation, automationValueAt, sortKeyframes } from "./Automation";
+import { RubberBand, RubberBandFunctions } from "./RubberBand";
+
+// Block size used when ratios are updated between process calls
+const AUTOMATION_BLOCK_SIZE = 1024;
+
+export interface StretchSettings {
+  sampleRate: number;
+  semitones: number;
+  tempo?: number; // ratio, 1.0 = original speed
+  stretchOptions?: StretchOptions;
+  // Keyframes override `semitones` and `tempo` when present
+  automation?: Automation;
+}
+
+// How a render hands back its results and lets its caller step in
+export interface StretchHooks {
+  // Stretched audio in order, latency already trimmed. The arrays are only
+  // valid during the call.
+  onOutput: (block: Float32Array[]) => void;
+  onProgress: (progress: number) => void; // 0-100
+  // Awaited between blocks; may yield to the event loop, or throw to stop
+  checkpoint: () => Promise<void>;
+}
+
+/**
+ * Runs audio through a RubberBand stretcher: studied first and then
+ * processed for fixed settings, or block by block in real-time mode when
+ * automation changes the ratios along the way. Shared by the browser's
+ * workers and the command line tool. One render runs at a time.
+ */
+export class StretchRenderer {
+  private module: any;
+  private functions: RubberBandFunctions;
+  private hooks: StretchHooks | null = null;
+  private outputSkip = 0;
+
+  constructor({ module, functions }: RubberBand) {
+    this.module = module;
+    this.functions = functions;
+  }
+
+  async render(
+    inputChannels: Float32Array[],
+    settings: StretchSettings,
+    hooks: StretchHooks
+  ) {
+    this.hooks = hooks;
+    this.outputSkip = 0;
+
+    try {
+      await this.renderChannels(inputChannels, settings);
+    } finally {
+      this.hooks = null;
+    }
+  }
+
+  private async renderChannels(
+    inputChannels: Float32Array[],
+    settings: StretchSettings
+  ) {
+    const {
+      sampleRate,
+      semitones,
+      tempo = 1.0,
+      stretchOptions = {},
+      automation,
+    } = settings;
+    const channels = inputChannels.length;
+
+    if (automation && automation.keyframes.length > 0) {
+      await this.processAutomatedAudio(inputChannels, settings, automation);
+      return;
+    }
+
+    if (semitones === 0 && tempo === 1.0) {
+      this.writeOutput(inputChannels);
+      return;
+    }
+
+    const inputLength = inputChannels[0].length;
+    const pitchRatio = Math.pow(2, semitones / 12);
+    const timeRatio = 1.0 / tempo; // Inverse of tempo for time stretching
+
+    const options = toRubberBandOptions(stretchOptions);
+
+    const stretcher = this.functions.rubberband_new(
+      Math.floor(sampleRate),
+      Math.floor(channels),
+      options,
+      1,
+      1
+    );
+
+    if (!stretcher) {
+      throw new Error("Failed to create RubberBand stretcher");
+    }
+
+    try {
+      this.functions.rubberband_set_time_ratio(stretcher, timeRatio);
+      this.functions.rubberband_set_pitch_scale(stretcher, pitchRatio);
+      this.functions.rubberband_set_expected_input_duration(
+        stretcher,
+        inputLength
+      );
+
+      const samplesRequired =
+        this.functions.rubberband_get_samples_required(stretcher);
+      this.functions.rubberband_set_max_process_size(
+        stretcher,
+        samplesRequired
+      );
+
+      await this.processAudioWithStudy(
+        stretcher,
+        inputChannels,
+        inputLength,
+        channels,
+        samplesRequired
+      );
+    } finally {
+      this.functions.rubberband_delete(stretcher);
+    }
+  }
+
+  /**
+   * Offline stretchers fix their ratios once studying starts, so automated
+   * renders run the stretcher in real-time mode and update the pitch and
+   * time ratios before every block.
+   */
+  private async processAutomatedAudio(
+    audioData: Float32Array[],
+    settings: StretchSettings,
+    automation: Automation
+  ) {
+    const { sampleRate, stretchOptions = {} } = settings;
+    const channels = audioData.length;
+    const keyframes = sortKeyframes(automation.keyframes);
+    const interpolation = automation.interpolation ?? "linear";
+    const inputLength = audioData[0].length;
+
+    const initial = automationValueAt(keyframes, 0, interpolation);
+    const stretcher = this.functions.rubberband_new(
+      Math.floor(sampleRate),
+      Math.floor(channels),
+      toRubberBandOptions(stretchOptions, true),
+      1.0 / initial.tempo,
+      Math.pow(2, initial.semitones / 12)
+    );
+
+    if (!stretcher) {
+      throw new Error("Failed to create RubberBand stretcher");
+    }
+
+    const inputPtrs = this.module._malloc(channels * 4);
+    const outputPtrs = this.module._malloc(channels * 4);
+    const channelDataPtrs: number[] = [];
+
+    try {
+      this.functions.rubberband_set_max_process_size(
+        stretcher,
+        AUTOMATION_BLOCK_SIZE
+      );
+
+      for (let ch = 0; ch < channels; ch++) {
+        const bufferPtr = this.module._malloc(AUTOMATION_BLOCK_SIZE * 4);
+        channelDataPtrs.push(bufferPtr);
+        this.module.HEAPU32[(inputPtrs >> 2) + ch] = bufferPtr;
+      }
+
+      // Prime with silence so the first real samples aren't smeared
+      let padding =
+        this.functions.rubberband_get_preferred_start_pad(stretcher);
+      this.outputSkip = this.functions.rubberband_get_start_delay(stretcher);
+      while (padding > 0) {
+        const chunkSize = Math.min(AUTOMATION_BLOCK_SIZE, padding);
+        for (let ch = 0; ch < channels; ch++) {
+          this.module.HEAPF32.fill(
+            0,
+            channelDataPtrs[ch] >> 2,
+            (channelDataPtrs[ch] >> 2) + chunkSize
+          );
+        }
+        this.functions.rubberband_process(stretcher, inputPtrs, chunkSize, 0);
+        padding -= chunkSize;
+      }
+
+      let read = 0;
+      while (read < inputLength) {
+        const chunkSize = Math.min(AUTOMATION_BLOCK_SIZE, inputLength - read);
+        const isFinal = read + chunkSize >= inputLength;
+
+        const { semitones, tempo } = automationValueAt(
+          keyframes,
+          read / sampleRate,
+          interpolation
+        );
+        this.functions.rubberband_set_time_ratio(stretcher, 1.0 / tempo);
+        this.functions.rubberband_set_pitch_scale(
+          stretcher,
+          Math.pow(2, semitones / 12)
+        );
+
+        for (let ch = 0; ch < channels; ch++) {
+          const inputData = audioData[ch].subarray(read, read + chunkSize);
+          this.module.HEAPF32.set(inputData, channelDataPtrs[ch] >> 2);
+        }
+
+        this.functions.rubberband_process(
+          stretcher,
+          inputPtrs,
+          chunkSize,
+          isFinal ? 1 : 0
+        );
+        this.tryRetrieveOutput(
+          stretcher,
+          outputPtrs,
+          channels,
+          AUTOMATION_BLOCK_SIZE,
+          false
+        );
+
+        read += chunkSize;
+
+        const progress = (read / inputLength) * 100;
+        this.hooks!.onProgress(progress);
+
+        await this.hooks!.checkpoint();
+      }
+
+      this.tryRetrieveOutput(
+        stretcher,
+        outputPtrs,
+        channels,
+        AUTOMATION_BLOCK_SIZE,
+        true
+      );
+    } finally {
+      channelDataPtrs.forEach((ptr) => this.module._free(ptr));
+      this.module._free(inputPtrs);
+      this.module._free(outputPtrs);
+      this.functions.rubberband_delete(stretcher);
+    }
+  }
+
+  private async processAudioWithStudy(
+    stretcher: number,
+    inputChannels: Float32Array[],
+    inputLength: number,
+    channels: number,
+    samplesRequired: number
+  ) {
+    const inputPtrs = this.module._malloc(channels * 4);
+    const outputPtrs = this.module._malloc(channels * 4);
+
+    const channelDataPtrs: number[] = [];
+    for (let ch = 0; ch < channels; ch++) {
+      const bufferPtr = this.module._malloc(samplesRequired * 4);
+      channelDataPtrs.push(bufferPtr);
+      this.module.HEAPU32[(inputPtrs >> 2) + ch] = bufferPtr;
+    }
+
+    this.outputSkip = 0;
+    const studyPolarity = this.studyPolarity(inputChannels);
+
+    try {
+      let read = 0;
+
+      while (read < inputLength) {
+        const chunkSize = Math.min(samplesRequired, inputLength - read);
+        const isFinal = read + chunkSize >= inputLength;
+
+        for (let ch = 0; ch < channels; ch++) {
+          const inputData = inputChannels[ch].subarray(read, read + chunkSize);
+          const start = channelDataPtrs[ch] >> 2;
+          this.module.HEAPF32.set(inputData, start);
+          if (studyPolarity[ch] < 0) {
+            for (let i = start; i < start + chunkSize; i++) {
+              this.module.HEAPF32[i] = -this.module.HEAPF32[i];
+            }
+          }
+        }
+
+        this.functions.rubberband_study(
+          stretcher,
+          inputPtrs,
+          chunkSize,
+          isFinal ? 1 : 0
+        );
+        read += chunkSize;
+
+        const progress = (read / inputLength) * 50;
+        this.hooks!.onProgress(progress);
+
+        await this.hooks!.checkpoint();
+      }
+
+      read = 0;
+      while (read < inputLength) {
+        const chunkSize = Math.min(samplesRequired, inputLength - read);
+        const isFinal = read + chunkSize >= inputLength;
+
+        for (let ch = 0; ch < channels; ch++) {
+          const inputData = inputChannels[ch].subarray(read, read + chunkSize);
+          this.module.HEAPF32.set(inputData, channelDataPtrs[ch] >> 2);
+        }
+
+        this.functions.rubberband_process(
+          stretcher,
+          inputPtrs,
+          chunkSize,
+          isFinal ? 1 : 0
+        );
+        this.tryRetrieveOutput(
+          stretcher,
+          outputPtrs,
+          channels,
+          samplesRequired,
+          false
+        );
+
+        read += chunkSize;
+
+        const progress = 50 + (read / inputLength) * 50;
+        this.hooks!.onProgress(progress);
+
+        await this.hooks!.checkpoint();
+      }
+
+      this.tryRetrieveOutput(
+        stretcher,
+        outputPtrs,
+        channels,
+        samplesRequired,
+        true
+      );
+    } finally {
+      channelDataPtrs.forEach((ptr) => this.module._free(ptr));
+      this.module._free(inputPtrs);
+      this.module._free(outputPtrs);
+    }
+  }
+
+  /**
+   * The R2 engine studies the sum of the channels, so audio whose channels
+   * are inverted copies of each other (such as centre-removed stereo) looks
+   * like silence and comes out near silent. Only the study pass sees these
+   * signs: each channel is flipped to line up with the first one.
+   */
+  private studyPolarity(inputChannels: Float32Array[]): number[] {
+    const first = inputChannels[0];
+    return inputChannels.map((channel, ch) => {
+      if (ch === 0) return 1;
+      let correlation = 0;
+      for (let i = 0; i < channel.length; i++) {
+        correlation += channel[i] * first[i];
+      }
+      return correlation < 0 ? -1 : 1;
+    });
+  }
+
+  // Stretcher output, minus the first `outputSkip` samples of latency
+  private writeOutput(sources: Float32Array[]) {
+    const length = sources[0].length;
+    const start = Math.min(this.outputSkip, length);
+    this.outputSkip -= start;
+
+    if (start < length) {
+      this.hooks!.onOutput(sources.map((source) => source.subarray(start)));
+    }
+  }
+
+  private tryRetrieveOutput(
+    stretcher: number,
+    outputPtrs: number,
+    channels: number,
+    samplesRequired: number,
+    final: boolean
+  ) {
+    while (true) {
+      const available = this.functions.rubberband_available(stretcher);
+      if (available < 1) break;
+      if (!final && available < samplesRequired) break;
+
+      const outputBuffers: number[] = [];
+      try {
+        for (let ch = 0; ch < channels; ch++) {
+          const outputBuffer = this.module._malloc(available * 4);
+          outputBuffers.push(outputBuffer);
+          this.module.HEAPU32[(outputPtrs >> 2) + ch] = outputBuffer;
+        }
+
+        const retrieved = this.functions.rubberband_retrieve(
+          stretcher,
+          outputPtrs,
+          Math.min(samplesRequired, available)
+        );
+
+        if (retrieved > 0) {
+          this.writeOutput(
+            outputBuffers.map((buffer) =>
+              this.module.HEAPF32.subarray(
+                buffer >> 2,
+                (buffer >> 2) + retrieved
+              )
+            )
+          );
+        }
+      } finally {
+        outputBuffers.forEach((buffer) => this.module._free(buffer));
+      }
+    }
+  }
+}
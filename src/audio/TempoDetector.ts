@@ -0,0 +1,125 @@
+import { fft, hannWindow } from "./FFT";
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0-1
+}
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+// Only this much audio from the middle of the file is analysed
+const MAX_ANALYSIS_SECONDS = 120;
+
+// Preferred tempo and the spread of the log-normal weighting around it,
+// which settles half/double-time ambiguity towards common tempos
+const PRIOR_BPM = 120;
+const PRIOR_OCTAVES = 1;
+
+/**
+ * Estimates tempo from onsets: a spectral-flux onset envelope is
+ * autocorrelated and the strongest periodicity within 60-200 BPM wins.
+ * Confidence is that peak's autocorrelation relative to lag zero.
+ */
+export class TempoDetector {
+  detect(audioBuffer: AudioBuffer): TempoEstimate | null {
+    const envelope = this.onsetEnvelope(audioBuffer);
+    const frameRate = audioBuffer.sampleRate / HOP_SIZE;
+
+    const minLag = Math.floor((60 * frameRate) / MAX_BPM);
+    const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+    if (envelope.length < maxLag * 2) return null;
+
+    const autocorrelation = new Float32Array(maxLag + 2);
+    for (let lag = 0; lag < autocorrelation.length; lag++) {
+      let sum = 0;
+      for (let i = lag; i < envelope.length; i++) {
+        sum += envelope[i] * envelope[i - lag];
+      }
+      autocorrelation[lag] = sum / (envelope.length - lag);
+    }
+    if (autocorrelation[0] <= 0) return null;
+
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const bpm = (60 * frameRate) / lag;
+      const weight = Math.exp(
+        -0.5 * (Math.log2(bpm / PRIOR_BPM) / PRIOR_OCTAVES) ** 2
+      );
+      const score = autocorrelation[lag] * weight;
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision
+    const previous = autocorrelation[bestLag - 1];
+    const peak = autocorrelation[bestLag];
+    const next = autocorrelation[bestLag + 1];
+    const curvature = previous - 2 * peak + next;
+    const offset = curvature < 0 ? (0.5 * (previous - next)) / curvature : 0;
+
+    return {
+      bpm: (60 * frameRate) / (bestLag + offset),
+      confidence: Math.max(0, Math.min(1, peak / autocorrelation[0])),
+    };
+  }
+
+  // Half-wave rectified spectral flux, mean-removed
+  private onsetEnvelope(audioBuffer: AudioBuffer): Float32Array {
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      channels.push(audioBuffer.getChannelData(ch));
+    }
+
+    const analysisLength = Math.min(
+      audioBuffer.length,
+      Math.round(MAX_ANALYSIS_SECONDS * audioBuffer.sampleRate)
+    );
+    const start = Math.floor((audioBuffer.length - analysisLength) / 2);
+    const frameCount = Math.max(
+      0,
+      Math.floor((analysisLength - FRAME_SIZE) / HOP_SIZE) + 1
+    );
+
+    const window = hannWindow(FRAME_SIZE);
+    const real = new Float32Array(FRAME_SIZE);
+    const imag = new Float32Array(FRAME_SIZE);
+    let previous = new Float32Array(FRAME_SIZE / 2 + 1);
+    let current = new Float32Array(FRAME_SIZE / 2 + 1);
+    const envelope = new Float32Array(frameCount);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const offset = start + frame * HOP_SIZE;
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        let sum = 0;
+        for (const channel of channels) {
+          sum += channel[offset + i];
+        }
+        real[i] = (sum / channels.length) * window[i];
+        imag[i] = 0;
+      }
+
+      fft(real, imag);
+
+      let flux = 0;
+      for (let bin = 0; bin < current.length; bin++) {
+        // Log compression keeps quiet onsets from being drowned out
+        current[bin] = Math.log1p(100 * Math.hypot(real[bin], imag[bin]));
+        if (frame > 0) {
+          flux += Math.max(0, current[bin] - previous[bin]);
+        }
+      }
+      envelope[frame] = flux;
+      [previous, current] = [current, previous];
+    }
+
+    const mean =
+      envelope.reduce((sum, value) => sum + value, 0) / (frameCount || 1);
+    return envelope.map((value) => Math.max(0, value - mean));
+  }
+}
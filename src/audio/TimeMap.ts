@@ -0,0 +1,79 @@
+import { Automation, automationValueAt, sortKeyframes } from "./Automation";
+import { TimeRegion } from "./PitchShifter";
+
+// The settings of a render that decide where each moment of the input ends up
+export interface TimeMapSettings {
+  tempo: number;
+  region?: TimeRegion;
+  automation?: Automation;
+}
+
+// Resolution of the tempo curve integration for automated renders
+const AUTOMATION_STEP_SECONDS = 0.01;
+
+// Output seconds taken by the input between `from` and `to`
+function stretchedDuration(
+  from: number,
+  to: number,
+  settings: TimeMapSettings
+): number {
+  const automation = settings.automation;
+  if (!automation || automation.keyframes.length === 0) {
+    return (to - from) / settings.tempo;
+  }
+
+  const keyframes = sortKeyframes(automation.keyframes);
+  let duration = 0;
+  for (let time = from; time < to; time += AUTOMATION_STEP_SECONDS) {
+    const step = Math.min(AUTOMATION_STEP_SECONDS, to - time);
+    const { tempo } = automationValueAt(
+      keyframes,
+      time + step / 2,
+      automation.interpolation
+    );
+    duration += step / tempo;
+  }
+  return duration;
+}
+
+/**
+ * Where a moment of the input lands in a render made with `settings`. With a
+ * region only that part is stretched; the audio around it keeps its timing.
+ */
+export function sourceToOutputTime(
+  time: number,
+  settings: TimeMapSettings
+): number {
+  const region = settings.region;
+  if (!region) return stretchedDuration(0, time, settings);
+
+  if (time <= region.start) return time;
+  if (time <= region.end) {
+    return region.start + stretchedDuration(region.start, time, settings);
+  }
+  return (
+    region.start +
+    stretchedDuration(region.start, region.end, settings) +
+    (time - region.end)
+  );
+}
+
+// The inverse of sourceToOutputTime, found by bisection since it's monotonic
+export function outputToSourceTime(
+  time: number,
+  settings: TimeMapSettings
+): number {
+  let low = 0;
+  let high = Math.max(1, time);
+  while (sourceToOutputTime(high, settings) < time) high *= 2;
+
+  for (let i = 0; i < 40; i++) {
+    const middle = (low + high) / 2;
+    if (sourceToOutputTime(middle, settings) < time) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,85 @@
+import { forEachSpectrum } from "./FFT";
+
+export interface TuningEstimate {
+  cents: number; // offset from A=440 equal temperament, -50 to 50
+  referenceHz: number; // the A the recording appears to be tuned to
+  confidence: number; // 0-1
+}
+
+const FRAME_SIZE = 8192;
+const MAX_FRAMES = 300;
+const MIN_FREQUENCY = 80;
+const MAX_FREQUENCY = 4000;
+
+// Peaks quieter than this fraction of the frame's loudest are ignored
+const PEAK_THRESHOLD = 0.1;
+
+export const STANDARD_REFERENCE_HZ = 440;
+
+/**
+ * Cents needed to move a recording tuned to `fromHz` onto `toHz`. Unlike
+ * the fine slider this isn't limited to a semitone either way.
+ */
+export function centsBetweenReferences(fromHz: number, toHz: number) {
+  return 1200 * Math.log2(toHz / fromHz);
+}
+
+/**
+ * Measures how far a recording sits from A=440 by locating spectral peaks
+ * precisely and averaging how far each lies from the nearest equal-tempered
+ * note. Deviations wrap at ±50 cents, so the average is taken on a circle;
+ * the length of the resulting vector doubles as the confidence.
+ */
+export class TuningDetector {
+  detect(audioBuffer: AudioBuffer): TuningEstimate | null {
+    const sampleRate = audioBuffer.sampleRate;
+    const minBin = Math.ceil((MIN_FREQUENCY * FRAME_SIZE) / sampleRate);
+    const maxBin = Math.floor((MAX_FREQUENCY * FRAME_SIZE) / sampleRate);
+    let sumCos = 0;
+    let sumSin = 0;
+    let totalWeight = 0;
+
+    forEachSpectrum(audioBuffer, FRAME_SIZE, MAX_FRAMES, (magnitudes) => {
+      let loudest = 0;
+      for (let bin = minBin; bin <= maxBin; bin++) {
+        loudest = Math.max(loudest, magnitudes[bin]);
+      }
+      if (loudest <= 0) return;
+
+      for (let bin = minBin; bin <= maxBin; bin++) {
+        const magnitude = magnitudes[bin];
+        if (
+          magnitude < loudest * PEAK_THRESHOLD ||
+          magnitude <= magnitudes[bin - 1] ||
+          magnitude < magnitudes[bin + 1]
+        ) {
+          continue;
+        }
+
+        // Quadratic interpolation on log magnitudes for the true peak
+        const a = Math.log(magnitudes[bin - 1] + 1e-12);
+        const b = Math.log(magnitude + 1e-12);
+        const c = Math.log(magnitudes[bin + 1] + 1e-12);
+        const denominator = a - 2 * b + c;
+        const offset = denominator < 0 ? (0.5 * (a - c)) / denominator : 0;
+        const frequency = ((bin + offset) * sampleRate) / FRAME_SIZE;
+
+        const cents = 1200 * Math.log2(frequency / STANDARD_REFERENCE_HZ);
+        const angle = (2 * Math.PI * cents) / 100;
+        const weight = magnitude / loudest;
+        sumCos += weight * Math.cos(angle);
+        sumSin += weight * Math.sin(angle);
+        totalWeight += weight;
+      }
+    });
+
+    if (totalWeight === 0) return null;
+
+    const cents = (100 * Math.atan2(sumSin, sumCos)) / (2 * Math.PI);
+    return {
+      cents,
+      referenceHz: STANDARD_REFERENCE_HZ * Math.pow(2, cents / 1200),
+      confidence: Math.hypot(sumCos, sumSin) / totalWeight,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Removes what's panned dead centre, which on most mixes is the lead vocal:
+ * - off: leave the audio alone
+ * - center: cancel the whole centre, bass and kick included
+ * - band: cancel the centre only across the vocal range, keeping bass,
+ *   kick and the top end
+ */
+export type VocalReduction = "off" | "center" | "band";
+
+export const VOCAL_REDUCTIONS: readonly VocalReduction[] = [
+  "off",
+  "center",
+  "band",
+];
+
+// The part of the centre removed by the band-limited variant
+const VOCAL_BAND_LOW_HZ = 150;
+const VOCAL_BAND_HIGH_HZ = 8000;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+// Second-order Butterworth sections (RBJ cookbook, Q = 1/√2)
+function butterworth(
+  type: "lowpass" | "highpass",
+  frequency: number,
+  sampleRate: number
+): Biquad {
+  const w = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w) / Math.SQRT2;
+  const cos = Math.cos(w);
+  const a0 = 1 + alpha;
+  const b1 = type === "lowpass" ? 1 - cos : -(1 + cos);
+  const b0 = Math.abs(b1) / 2;
+
+  return {
+    b: [b0 / a0, b1 / a0, b0 / a0],
+    a: [1, (-2 * cos) / a0, (1 - alpha) / a0],
+  };
+}
+
+function runBiquad({ b, a }: Biquad, input: Float32Array, reverse: boolean) {
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  const length = input.length;
+  for (let n = 0; n < length; n++) {
+    const i = reverse ? length - 1 - n : n;
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    input[i] = y;
+  }
+}
+
+// Forwards then backwards, so the result has no phase shift and lines up
+// with the signal it's split from
+function zeroPhaseFilter(input: Float32Array, filter: Biquad): Float32Array {
+  const output = input.slice();
+  runBiquad(filter, output, false);
+  runBiquad(filter, output, true);
+  return output;
+}
+
+/**
+ * Returns stereo channels with the centre removed. With L = M + S and
+ * R = M - S the output is S (and -S) plus whatever part of M is kept.
+ * Anything that isn't stereo has no centre to find and is returned as is.
+ */
+export function reduceVocals(
+  channels: Float32Array[],
+  sampleRate: number,
+  mode: VocalReduction
+): Float32Array[] {
+  if (mode === "off" || channels.length !== 2) {
+    return channels;
+  }
+
+  const [left, right] = channels;
+  const length = left.length;
+  const mid = new Float32Array(length);
+  const side = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    mid[i] = (left[i] + right[i]) / 2;
+    side[i] = (left[i] - right[i]) / 2;
+  }
+
+  let kept = new Float32Array(length);
+  if (mode === "band") {
+    const low = zeroPhaseFilter(
+      mid,
+      butterworth("lowpass", VOCAL_BAND_LOW_HZ, sampleRate)
+    );
+    const high = zeroPhaseFilter(
+      mid,
+      butterworth("highpass", VOCAL_BAND_HIGH_HZ, sampleRate)
+    );
+    kept = low.map((value, i) => value + high[i]);
+  }
+
+  return [
+    kept.map((value, i) => value + side[i]),
+    kept.map((value, i) => value - side[i]),
+  ];
+}
@@ -0,0 +1,125 @@
+export interface DecodedWav {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export function isWav(data: ArrayBuffer): boolean {
+  if (data.byteLength < 12) return false;
+  const view = new DataView(data);
+  return readString(view, 0, 4) === "RIFF" && readString(view, 8, 4) === "WAVE";
+}
+
+/**
+ * Decode a WAV file into planar float channels, for where there's no Web
+ * Audio to do it. Reads 8 to 32-bit integer PCM and 32 or 64-bit float,
+ * including the extensible fmt chunk; anything else should go through
+ * FFmpeg first.
+ */
+export function decodeWav(data: ArrayBuffer): DecodedWav {
+  if (!isWav(data)) {
+    throw new Error("Not a WAV file");
+  }
+
+  const view = new DataView(data);
+  let format = { tag: 0, channels: 0, rate: 0, bits: 0 };
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = {
+        tag: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        rate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      };
+      // The real format is the first two bytes of the sub-format GUID
+      if (format.tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        format.tag = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      dataOffset = body;
+      // Streamed files may leave the size unset or too large
+      dataSize = Math.min(size, data.byteLength - body);
+      break;
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  if (format.channels === 0 || dataOffset < 0) {
+    throw new Error("WAV file is missing its fmt or data chunk");
+  }
+
+  const { tag, bits } = format;
+  const bytesPerSample = bits / 8;
+  const supported =
+    (tag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bits)) ||
+    (tag === WAVE_FORMAT_IEEE_FLOAT && (bits === 32 || bits === 64));
+  if (!supported) {
+    throw new Error(`Unsupported WAV encoding: format ${tag}, ${bits}-bit`);
+  }
+
+  const blockAlign = format.channels * bytesPerSample;
+  const length = Math.floor(dataSize / blockAlign);
+  const channels = Array.from(
+    { length: format.channels },
+    () => new Float32Array(length)
+  );
+  const readSample = sampleReader(view, tag, bits);
+
+  let position = dataOffset;
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < format.channels; ch++) {
+      channels[ch][i] = readSample(position);
+      position += bytesPerSample;
+    }
+  }
+
+  return { sampleRate: format.rate, channels };
+}
+
+function sampleReader(
+  view: DataView,
+  tag: number,
+  bits: number
+): (offset: number) => number {
+  if (tag === WAVE_FORMAT_IEEE_FLOAT) {
+    return bits === 32
+      ? (offset) => view.getFloat32(offset, true)
+      : (offset) => view.getFloat64(offset, true);
+  }
+
+  switch (bits) {
+    case 8: // unsigned, centred on 128
+      return (offset) => (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return (offset) => view.getInt16(offset, true) / 32768;
+    case 24:
+      return (offset) =>
+        (view.getUint8(offset) |
+          (view.getUint8(offset + 1) << 8) |
+          (view.getInt8(offset + 2) << 16)) /
+        8388608;
+    default:
+      return (offset) => view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let string = "";
+  for (let i = 0; i < length; i++) {
+    string += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return string;
+}
@@ -0,0 +1,181 @@
+import { resample } from "./Resampler";
+
+export type WavBitDepth = 16 | 24 | 32; // 32 is IEEE float
+export const WAV_BIT_DEPTHS: readonly WavBitDepth[] = [16, 24, 32];
+
+/**
+ * How integer output is quantised:
+ * - none: plain rounding
+ * - tpdf: triangular dither of ±1 LSB, which decorrelates the error
+ * - shaped: TPDF with the error fed back so its noise moves to frequencies
+ *   the ear is least sensitive to
+ */
+export type DitherMode = "none" | "tpdf" | "shaped";
+export const DITHER_MODES: readonly DitherMode[] = ["none", "tpdf", "shaped"];
+
+export interface WavOptions {
+  bitDepth?: WavBitDepth;
+  // Output rate; defaults to the input's own
+  sampleRate?: number;
+  dither?: DitherMode;
+}
+
+// Tags written alongside the audio
+export interface WavMetadata {
+  bpm?: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+// Lipshitz's E-weighted three-tap error filter for noise shaping
+const NOISE_SHAPING = [1.623, -0.982, 0.109];
+
+export function resolveWavOptions(options: WavOptions = {}) {
+  return {
+    bitDepth: options.bitDepth ?? 16,
+    sampleRate: options.sampleRate,
+    dither: options.dither ?? "tpdf",
+  };
+}
+
+// Body of the ACID loop chunk, which is where DAWs look for a WAV's tempo
+const ACID_SIZE = 24;
+const ACID_ROOT_NOTE = 60;
+
+/**
+ * Encode planar float channels as a WAV file. Integer depths are clamped to
+ * full scale after dithering; 32-bit float keeps overs intact. A BPM goes
+ * into an `acid` chunk.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: WavOptions = {},
+  metadata: WavMetadata = {}
+): ArrayBuffer {
+  const { bitDepth, dither, ...resolved } = resolveWavOptions(options);
+  const outputRate = resolved.sampleRate ?? sampleRate;
+  const samples = resample(channels, sampleRate, outputRate);
+
+  const channelCount = samples.length;
+  const length = samples[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const isFloat = bitDepth === 32;
+
+  // Float files carry the extended fmt chunk and a fact chunk
+  const fmtSize = isFloat ? 18 : 16;
+  const factSize = isFloat ? 12 : 0;
+  const acidSize = metadata.bpm ? 8 + ACID_SIZE : 0;
+  const headerSize = 12 + 8 + fmtSize + factSize + acidSize + 8;
+
+  const buffer = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, outputRate, true);
+  view.setUint32(28, outputRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  let offset = 36;
+  if (isFloat) {
+    view.setUint16(offset, 0, true); // no extension
+    offset += 2;
+    writeString(offset, "fact");
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, length, true);
+    offset += 12;
+  }
+  if (metadata.bpm) {
+    const beats = Math.round(((length / outputRate) * metadata.bpm) / 60);
+    writeString(offset, "acid");
+    view.setUint32(offset + 4, ACID_SIZE, true);
+    view.setUint32(offset + 8, 0, true); // flags: a loop, not a one-shot
+    view.setUint16(offset + 12, ACID_ROOT_NOTE, true);
+    view.setUint32(offset + 20, beats, true);
+    view.setUint16(offset + 24, 4, true); // meter denominator
+    view.setUint16(offset + 26, 4, true); // meter numerator
+    view.setFloat32(offset + 28, metadata.bpm, true);
+    offset += 8 + ACID_SIZE;
+  }
+  writeString(offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  if (isFloat) {
+    for (let i = 0; i < length; i++) {
+      for (let ch = 0; ch < channelCount; ch++) {
+        view.setFloat32(offset, samples[ch][i], true);
+        offset += 4;
+      }
+    }
+    return buffer;
+  }
+
+  const quantized = samples.map((channel) =>
+    quantize(channel, bitDepth, dither)
+  );
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < channelCount; ch++) {
+      const value = quantized[ch][i];
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+function quantize(
+  channel: Float32Array,
+  bitDepth: 16 | 24,
+  dither: DitherMode
+): Int32Array {
+  const scale = 2 ** (bitDepth - 1);
+  const max = scale - 1;
+  const output = new Int32Array(channel.length);
+  const error = [0, 0, 0]; // most recent first
+
+  for (let i = 0; i < channel.length; i++) {
+    let target = channel[i] * scale;
+    if (dither === "shaped") {
+      target -=
+        NOISE_SHAPING[0] * error[0] +
+        NOISE_SHAPING[1] * error[1] +
+        NOISE_SHAPING[2] * error[2];
+    }
+
+    const noise = dither === "none" ? 0 : Math.random() - Math.random();
+    const rounded = Math.round(target + noise);
+    output[i] = Math.max(-scale, Math.min(max, rounded));
+
+    if (dither === "shaped") {
+      error[2] = error[1];
+      error[1] = error[0];
+      // Clipping isn't fed back, or the filter would try to chase overs
+      error[0] = rounded - target;
+    }
+  }
+
+  return output;
+}
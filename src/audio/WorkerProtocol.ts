@@ -0,0 +1,41 @@
+import { StretchOptions } from "./StretchOptions";
+import { Automation } from "./Automation";
+import { ChannelMode } from "./ChannelMode";
+
+/**
+ * Messages exchanged between PitchShifter and pitch-shifter.worker.ts. Every
+ * message carries the id of the job it belongs to, so responses can be
+ * routed back to the right caller when several jobs are in flight.
+ *
+ * Sample data is transferred rather than copied in both directions. Output
+ * arrives as a series of "output" blocks in timeline order, followed by
+ * "complete" once the last block has been sent.
+ */
+
+export interface ProcessMessage {
+  audioData: Float32Array[];
+  sampleRate: number;
+  channels: number;
+  semitones: number;
+  tempo?: number;
+  stretchOptions?: StretchOptions;
+  automation?: Automation;
+  channelMode?: ChannelMode;
+}
+
+export type WorkerMessage =
+  | { type: "init"; id: number }
+  | { type: "process"; id: number; data: ProcessMessage }
+  | { type: "cancel"; id: number };
+
+export type WorkerResponse =
+  | { type: "ready"; id: number }
+  | { type: "progress"; id: number; data: { progress: number } }
+  | {
+      type: "output";
+      id: number;
+      data: { outputChannels: Float32Array[] };
+    }
+  | { type: "complete"; id: number }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; data: string };
@@ -0,0 +1,26 @@
+// AudioWorkletGlobalScope has no atob, which the embedded RubberBand WASM
+// needs to decode itself. Imported first so it runs before that module.
+if (typeof globalThis.atob !== "function") {
+  const alphabet =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+  globalThis.atob = (data: string): string => {
+    const input = data.replace(/[^A-Za-z0-9+/]/g, "");
+    let output = "";
+    let buffer = 0;
+    let bits = 0;
+
+    for (let i = 0; i < input.length; i++) {
+      buffer = (buffer << 6) | alphabet.indexOf(input[i]);
+      bits += 6;
+      if (bits >= 8) {
+        bits -= 8;
+        output += String.fromCharCode((buffer >> bits) & 0xff);
+      }
+    }
+
+    return output;
+  };
+}
+
+export {};
@@ -0,0 +1,279 @@
+import "./atob-polyfill";
+import { StretchOptions, toRubberBandOptions } from "./StretchOptions";
+import { loadRubberBand, RubberBandFunctions } from "./RubberBand";
+import { LivePreviewMessage, LivePreviewResponse } from "./LivePreviewProtocol";
+
+// AudioWorkletGlobalScope members, which lib.dom doesn't describe
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: any) => AudioWorkletProcessor
+): void;
+
+const RENDER_QUANTUM = 128;
+// Largest block handed to the stretcher per process call
+const MAX_BLOCK_SIZE = 1024;
+// Report the playhead roughly every 100 ms
+const POSITION_INTERVAL = Math.round(0.1 * sampleRate);
+
+class LivePreviewProcessor extends AudioWorkletProcessor {
+  private module: any = null;
+  private wrappedFunctions: RubberBandFunctions = {};
+  private stretcher = 0;
+  private inputPtrs = 0;
+  private outputPtrs = 0;
+  private inputBuffers: number[] = [];
+  private outputBuffers: number[] = [];
+
+  private source: Float32Array[] = [];
+  private channels = 0;
+  private readPosition = 0;
+  // Set once the last of the source has gone in with the final flag
+  private finalFed = false;
+  private playing = false;
+  private semitones = 0;
+  private tempo = 1.0;
+  private stretchOptions: StretchOptions = {};
+  private samplesSincePosition = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = this.handleMessage.bind(this);
+
+    loadRubberBand()
+      .then(({ module, functions }) => {
+        this.module = module;
+        this.wrappedFunctions = functions;
+        if (this.channels > 0) {
+          this.createStretcher();
+        }
+        this.postMessage({ type: "ready" });
+      })
+      .catch((error) => {
+        this.postMessage({
+          type: "error",
+          data: `Failed to initialize RubberBand: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+      });
+  }
+
+  private handleMessage(event: MessageEvent<LivePreviewMessage>) {
+    const message = event.data;
+
+    switch (message.type) {
+      case "load":
+        this.source = message.data.audioData;
+        this.channels = this.source.length;
+        this.readPosition = 0;
+        this.playing = false;
+        this.createStretcher();
+        break;
+      case "play":
+        this.playing = true;
+        break;
+      case "pause":
+        this.playing = false;
+        break;
+      case "seek":
+        this.readPosition = Math.max(
+          0,
+          Math.min(
+            this.sourceLength(),
+            Math.floor(message.data.time * sampleRate)
+          )
+        );
+        this.resetStretcher();
+        this.reportPosition();
+        break;
+      case "params":
+        this.semitones = message.data.semitones;
+        this.tempo = message.data.tempo;
+        this.applyRatios();
+        break;
+      case "options":
+        // Option bits are fixed at construction, so start a new stretcher
+        this.stretchOptions = message.data.stretchOptions;
+        this.createStretcher();
+        break;
+      default: {
+        const unknown: never = message;
+        throw new Error(
+          `Unknown message type: ${(unknown as { type: string }).type}`
+        );
+      }
+    }
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+
+    if (!this.playing || !this.stretcher) {
+      return true;
+    }
+
+    let available = this.wrappedFunctions.rubberband_available(this.stretcher);
+    while (available < RENDER_QUANTUM && !this.finalFed) {
+      this.feedStretcher();
+      available = this.wrappedFunctions.rubberband_available(this.stretcher);
+    }
+
+    // After the final block the stretcher is drained a quantum at a time;
+    // it reports -1 once the last of its output has been retrieved
+    if (available <= 0) {
+      this.playing = false;
+      this.postMessage({ type: "ended" });
+      return true;
+    }
+
+    for (let ch = 0; ch < this.channels; ch++) {
+      this.module.HEAPU32[(this.outputPtrs >> 2) + ch] = this.outputBuffers[ch];
+    }
+    const retrieved = this.wrappedFunctions.rubberband_retrieve(
+      this.stretcher,
+      this.outputPtrs,
+      Math.min(available, RENDER_QUANTUM)
+    );
+
+    // Outputs start each quantum silent, so a short last one is padded
+    for (let ch = 0; ch < output.length; ch++) {
+      // Duplicate the last source channel if the node has more outputs
+      const sourceChannel = Math.min(ch, this.channels - 1);
+      const start = this.outputBuffers[sourceChannel] >> 2;
+      output[ch].set(this.module.HEAPF32.subarray(start, start + retrieved));
+    }
+
+    this.samplesSincePosition += RENDER_QUANTUM;
+    if (this.samplesSincePosition >= POSITION_INTERVAL) {
+      this.reportPosition();
+    }
+
+    return true;
+  }
+
+  private feedStretcher() {
+    const required = Math.max(
+      1,
+      Math.min(
+        MAX_BLOCK_SIZE,
+        this.wrappedFunctions.rubberband_get_samples_required(this.stretcher)
+      )
+    );
+    const chunkSize = Math.min(
+      required,
+      this.sourceLength() - this.readPosition
+    );
+
+    for (let ch = 0; ch < this.channels; ch++) {
+      this.module.HEAPF32.set(
+        this.source[ch].subarray(
+          this.readPosition,
+          this.readPosition + chunkSize
+        ),
+        this.inputBuffers[ch] >> 2
+      );
+    }
+
+    // At the end this is an empty block that only carries the final flag
+    this.readPosition += chunkSize;
+    this.finalFed = this.readPosition >= this.sourceLength();
+    this.wrappedFunctions.rubberband_process(
+      this.stretcher,
+      this.inputPtrs,
+      chunkSize,
+      this.finalFed ? 1 : 0
+    );
+  }
+
+  private createStretcher() {
+    if (!this.module || this.channels === 0) return;
+
+    this.destroyStretcher();
+    this.finalFed = false;
+
+    this.stretcher = this.wrappedFunctions.rubberband_new(
+      Math.floor(sampleRate),
+      this.channels,
+      toRubberBandOptions(this.stretchOptions, true),
+      1.0 / this.tempo,
+      Math.pow(2, this.semitones / 12)
+    );
+    if (!this.stretcher) {
+      this.postMessage({
+        type: "error",
+        data: "Failed to create RubberBand stretcher",
+      });
+      return;
+    }
+
+    this.wrappedFunctions.rubberband_set_max_process_size(
+      this.stretcher,
+      MAX_BLOCK_SIZE
+    );
+
+    this.inputPtrs = this.module._malloc(this.channels * 4);
+    this.outputPtrs = this.module._malloc(this.channels * 4);
+    for (let ch = 0; ch < this.channels; ch++) {
+      const inputBuffer = this.module._malloc(MAX_BLOCK_SIZE * 4);
+      this.inputBuffers.push(inputBuffer);
+      this.module.HEAPU32[(this.inputPtrs >> 2) + ch] = inputBuffer;
+      this.outputBuffers.push(this.module._malloc(RENDER_QUANTUM * 4));
+    }
+  }
+
+  private resetStretcher() {
+    if (!this.stretcher) return;
+
+    this.wrappedFunctions.rubberband_reset(this.stretcher);
+    this.finalFed = false;
+    this.applyRatios();
+  }
+
+  private destroyStretcher() {
+    if (!this.stretcher) return;
+
+    this.wrappedFunctions.rubberband_delete(this.stretcher);
+    this.inputBuffers.forEach((ptr) => this.module._free(ptr));
+    this.outputBuffers.forEach((ptr) => this.module._free(ptr));
+    this.module._free(this.inputPtrs);
+    this.module._free(this.outputPtrs);
+    this.stretcher = 0;
+    this.inputBuffers = [];
+    this.outputBuffers = [];
+  }
+
+  private applyRatios() {
+    if (!this.stretcher) return;
+
+    this.wrappedFunctions.rubberband_set_time_ratio(
+      this.stretcher,
+      1.0 / this.tempo
+    );
+    this.wrappedFunctions.rubberband_set_pitch_scale(
+      this.stretcher,
+      Math.pow(2, this.semitones / 12)
+    );
+  }
+
+  private reportPosition() {
+    this.samplesSincePosition = 0;
+    this.postMessage({
+      type: "position",
+      data: { time: this.readPosition / sampleRate },
+    });
+  }
+
+  private sourceLength(): number {
+    return this.source.length > 0 ? this.source[0].length : 0;
+  }
+
+  private postMessage(message: LivePreviewResponse) {
+    this.port.postMessage(message);
+  }
+}
+
+registerProcessor("live-preview", LivePreviewProcessor);
@@ -1,132 +1,132 @@
-interface WorkerMessage {
-  type: "init" | "process";
-  data?: any;
-}
-
-interface ProcessMessage {
-  audioData: Float32Array[];
-  sampleRate: number;
-  channels: number;
-  semitones: number;
-  tempo?: number;
-}
-
-interface WorkerResponse {
-  type: "ready" | "progress" | "complete" | "error";
-  data?: any;
+import { loadRubberBand } from "./RubberBand";
+import { StretchRenderer } from "./StretchRenderer";
+import {
+  fromMidSide,
+  outputChannelCount,
+  resolveChannelMode,
+  selectChannels,
+  toMidSide,
+} from "./ChannelMode";
+import {
+  ProcessMessage,
+  WorkerMessage,
+  WorkerResponse,
+} from "./WorkerProtocol";
+
+// How long the processing loops run before yielding to receive messages
+const YIELD_INTERVAL_MS = 50;
+
+// Output is sent back to the main thread in blocks of this many samples
+const OUTPUT_BLOCK_SIZE = 65536;
+
+class CancelledError extends Error {
+  constructor() {
+    super("Processing cancelled");
+    this.name = "CancelledError";
+  }
 }
 
 class PitchShifterWorker {
-  private module: any = null;
-  private initialized = false;
-  private wrappedFunctions: any = {};
+  private renderer: StretchRenderer | null = null;
+  private lastYield = 0;
+
+  // Jobs run one at a time in arrival order; the rest wait here
+  private queue: { id: number; data: ProcessMessage }[] = [];
+  private currentJobId: number | null = null;
+  private cancelledJobs = new Set<number>();
+
+  // Output of the current job that hasn't been sent yet
+  private outputBlock: Float32Array[] = [];
+  private outputFill = 0;
+  // Where stretched samples go; mid/side renders swap this out
+  private outputSink: (block: Float32Array[]) => void =
+    this.appendOutput.bind(this);
+  // Maps a pass's 0-100 progress onto the job's, for multi-pass renders
+  private progressOffset = 0;
+  private progressScale = 1;
 
   constructor() {
     self.addEventListener("message", this.handleMessage.bind(this));
   }
 
   private async handleMessage(event: MessageEvent<WorkerMessage>) {
-    const { type, data } = event.data;
+    const message = event.data;
 
     try {
-      switch (type) {
+      switch (message.type) {
         case "init":
-          await this.init();
+          await this.init(message.id);
           break;
         case "process":
-          await this.processAudio(data as ProcessMessage);
+          this.queue.push({ id: message.id, data: message.data });
+          await this.runQueue();
           break;
-        default:
-          throw new Error(`Unknown message type: ${type}`);
+        case "cancel":
+          this.cancelJob(message.id);
+          break;
+        default: {
+          // Fails to compile when WorkerMessage gains a type not handled here
+          const unknown: never = message;
+          throw new Error(
+            `Unknown message type: ${(unknown as { type: string }).type}`
+          );
+        }
       }
     } catch (error) {
       this.postMessage({
         type: "error",
+        id: message.id,
         data: error instanceof Error ? error.message : String(error),
       });
     }
   }
 
-  private async init() {
-    if (this.initialized) {
-      this.postMessage({ type: "ready" });
+  private async runQueue() {
+    if (this.currentJobId !== null) return;
+
+    while (this.queue.length > 0) {
+      const { id, data } = this.queue.shift()!;
+      this.currentJobId = id;
+      this.lastYield = performance.now();
+
+      try {
+        await this.processAudio(data);
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          this.postMessage({ type: "cancelled", id });
+        } else {
+          this.postMessage({
+            type: "error",
+            id,
+            data: error instanceof Error ? error.message : String(error),
+          });
+        }
+      } finally {
+        this.cancelledJobs.delete(id);
+        this.currentJobId = null;
+      }
+    }
+  }
+
+  private cancelJob(id: number) {
+    const queuedIndex = this.queue.findIndex((job) => job.id === id);
+    if (queuedIndex >= 0) {
+      this.queue.splice(queuedIndex, 1);
+      this.postMessage({ type: "cancelled", id });
+    } else if (id === this.currentJobId) {
+      this.cancelledJobs.add(id);
+    }
+  }
+
+  private async init(id: number) {
+    if (this.renderer) {
+      this.postMessage({ type: "ready", id });
       return;
     }
 
     try {
-      const RubberbandModule = await import("@echogarden/rubberband-wasm");
-      this.module = await RubberbandModule.default();
-
-      this.wrappedFunctions = {
-        rubberband_new: this.module.cwrap("rubberband_new", "number", [
-          "number",
-          "number",
-          "number",
-          "number",
-          "number",
-        ]),
-        rubberband_delete: this.module.cwrap("rubberband_delete", "void", [
-          "number",
-        ]),
-        rubberband_reset: this.module.cwrap("rubberband_reset", "void", [
-          "number",
-        ]),
-        rubberband_set_pitch_scale: this.module.cwrap(
-          "rubberband_set_pitch_scale",
-          "void",
-          ["number", "number"]
-        ),
-        rubberband_set_time_ratio: this.module.cwrap(
-          "rubberband_set_time_ratio",
-          "void",
-          ["number", "number"]
-        ),
-        rubberband_process: this.module.cwrap("rubberband_process", "void", [
-          "number",
-          "number",
-          "number",
-          "number",
-        ]),
-        rubberband_available: this.module.cwrap(
-          "rubberband_available",
-          "number",
-          ["number"]
-        ),
-        rubberband_retrieve: this.module.cwrap(
-          "rubberband_retrieve",
-          "number",
-          ["number", "number", "number"]
-        ),
-        rubberband_get_samples_required: this.module.cwrap(
-          "rubberband_get_samples_required",
-          "number",
-          ["number"]
-        ),
-        rubberband_set_max_process_size: this.module.cwrap(
-          "rubberband_set_max_process_size",
-          "void",
-          ["number", "number"]
-        ),
-        rubberband_get_latency: this.module.cwrap(
-          "rubberband_get_latency",
-          "number",
-          ["number"]
-        ),
-        rubberband_study: this.module.cwrap("rubberband_study", "void", [
-          "number",
-          "number",
-          "number",
-          "number",
-        ]),
-        rubberband_set_expected_input_duration: this.module.cwrap(
-          "rubberband_set_expected_input_duration",
-          "void",
-          ["number", "number"]
-        ),
-      };
-
-      this.initialized = true;
-      this.postMessage({ type: "ready" });
+      this.renderer = new StretchRenderer(await loadRubberBand());
+      this.postMessage({ type: "ready", id });
     } catch (error) {
       throw new Error(
         `Failed to initialize RubberBand: ${
@@ -137,233 +137,197 @@ class PitchShifterWorker {
   }
 
   private async processAudio(message: ProcessMessage) {
-    if (!this.initialized || !this.module) {
+    if (!this.renderer) {
       throw new Error("Worker not initialized");
     }
 
-    const { audioData, sampleRate, channels, semitones, tempo = 1.0 } = message;
-
-    if (semitones === 0 && tempo === 1.0) {
-      this.postMessage({
-        type: "complete",
-        data: { outputChannels: audioData },
-      });
-      return;
-    }
-
-    const inputLength = audioData[0].length;
-    const pitchRatio = Math.pow(2, semitones / 12);
-    const timeRatio = 1.0 / tempo; // Inverse of tempo for time stretching
-
-    const options = 0x00000010 | 0x00000800 | 0x00000200;
-
-    const stretcher = this.wrappedFunctions.rubberband_new(
-      Math.floor(sampleRate),
-      Math.floor(channels),
-      0,
-      1,
-      1
-    );
-
-    if (!stretcher) {
-      throw new Error("Failed to create RubberBand stretcher");
-    }
+    const { audioData, channels } = message;
+    const mode = resolveChannelMode(message.channelMode ?? "all", channels);
+    this.startOutput(outputChannelCount(mode, channels));
 
     try {
-      this.wrappedFunctions.rubberband_set_time_ratio(stretcher, timeRatio);
-      this.wrappedFunctions.rubberband_set_pitch_scale(stretcher, pitchRatio);
-      this.wrappedFunctions.rubberband_set_expected_input_duration(
-        stretcher,
-        inputLength
-      );
+      if (mode === "mid" || mode === "side") {
+        await this.processMidSide(message, mode);
+      } else {
+        await this.render(message, selectChannels(audioData, mode), true);
+      }
+      this.postComplete();
+    } finally {
+      this.outputSink = this.appendOutput.bind(this);
+      this.progressOffset = 0;
+      this.progressScale = 1;
+    }
+  }
 
-      const samplesRequired =
-        this.wrappedFunctions.rubberband_get_samples_required(stretcher);
-      this.wrappedFunctions.rubberband_set_max_process_size(
-        stretcher,
-        samplesRequired
+  /**
+   * Shift only the mid (or side) signal. The other one keeps its pitch but
+   * still needs the tempo change, so it's rendered first and held, then
+   * recombined with the shifted signal block by block as that comes out.
+   */
+  private async processMidSide(message: ProcessMessage, mode: "mid" | "side") {
+    const [mid, side] = toMidSide(message.audioData[0], message.audioData[1]);
+    const [shifted, unshifted] = mode === "mid" ? [mid, side] : [side, mid];
+
+    const held: Float32Array[] = [];
+    this.outputSink = ([block]) => held.push(block.slice());
+    this.progressScale = 0.5;
+    await this.render(message, [unshifted], false);
+
+    const other = this.concatenate(held);
+    let position = 0;
+    this.outputSink = ([block]) => {
+      const part = new Float32Array(block.length);
+      part.set(
+        other.subarray(
+          position,
+          Math.min(other.length, position + block.length)
+        )
       );
-
-      const outputChannels = await this.processAudioWithStudy(
-        stretcher,
-        audioData,
-        inputLength,
-        channels,
-        samplesRequired
+      position += block.length;
+      this.appendOutput(
+        mode === "mid" ? fromMidSide(block, part) : fromMidSide(part, block)
       );
-
-      this.postMessage({
-        type: "complete",
-        data: { outputChannels },
-      });
-    } finally {
-      this.wrappedFunctions.rubberband_delete(stretcher);
-    }
+    };
+    this.progressOffset = 50;
+    await this.render(message, [shifted], true);
   }
 
-  private async processAudioWithStudy(
-    stretcher: number,
+  // Stretch `inputChannels`, shifting pitch too unless `shiftPitch` is false
+  private async render(
+    message: ProcessMessage,
     inputChannels: Float32Array[],
-    inputLength: number,
-    channels: number,
-    samplesRequired: number
-  ): Promise<Float32Array[]> {
-    const outputChunks: Float32Array[][] = [];
-    const inputPtrs = this.module._malloc(channels * 4);
-    const outputPtrs = this.module._malloc(channels * 4);
-
-    const channelDataPtrs: number[] = [];
-    for (let ch = 0; ch < channels; ch++) {
-      const bufferPtr = this.module._malloc(samplesRequired * 4);
-      channelDataPtrs.push(bufferPtr);
-      this.module.HEAPU32[(inputPtrs >> 2) + ch] = bufferPtr;
+    shiftPitch: boolean
+  ) {
+    const { sampleRate, tempo, stretchOptions, automation } = message;
+
+    await this.renderer!.render(
+      inputChannels,
+      {
+        sampleRate,
+        semitones: shiftPitch ? message.semitones : 0,
+        tempo,
+        stretchOptions,
+        automation:
+          shiftPitch || !automation
+            ? automation
+            : {
+                ...automation,
+                keyframes: automation.keyframes.map((keyframe) => ({
+                  ...keyframe,
+                  semitones: 0,
+                })),
+              },
+      },
+      {
+        onOutput: (block) => this.outputSink(block),
+        onProgress: (progress) => this.postProgress(progress),
+        checkpoint: () => this.checkpoint(),
+      }
+    );
+  }
+
+  /**
+   * Let queued messages (such as "cancel") run now and then, and stop the
+   * current job if one asked to. The renderer frees its stretcher on the way
+   * out.
+   */
+  private async checkpoint() {
+    if (performance.now() - this.lastYield >= YIELD_INTERVAL_MS) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      this.lastYield = performance.now();
     }
 
-    try {
-      let read = 0;
+    if (
+      this.currentJobId !== null &&
+      this.cancelledJobs.has(this.currentJobId)
+    ) {
+      throw new CancelledError();
+    }
+  }
 
-      while (read < inputLength) {
-        const chunkSize = Math.min(samplesRequired, inputLength - read);
-        const isFinal = read + chunkSize >= inputLength;
+  // Start collecting output for a job with this many output channels
+  private startOutput(channels: number) {
+    this.outputBlock = Array.from(
+      { length: channels },
+      () => new Float32Array(OUTPUT_BLOCK_SIZE)
+    );
+    this.outputFill = 0;
+  }
 
-        for (let ch = 0; ch < channels; ch++) {
-          const inputData = inputChannels[ch].subarray(read, read + chunkSize);
-          this.module.HEAPF32.set(inputData, channelDataPtrs[ch] >> 2);
-        }
+  private appendOutput(sources: Float32Array[]) {
+    const length = sources[0].length;
+    let start = 0;
 
-        this.wrappedFunctions.rubberband_study(
-          stretcher,
-          inputPtrs,
-          chunkSize,
-          isFinal ? 1 : 0
+    while (start < length) {
+      const count = Math.min(
+        length - start,
+        OUTPUT_BLOCK_SIZE - this.outputFill
+      );
+      for (let ch = 0; ch < this.outputBlock.length; ch++) {
+        this.outputBlock[ch].set(
+          sources[ch].subarray(start, start + count),
+          this.outputFill
         );
-        read += chunkSize;
-
-        const progress = (read / inputLength) * 50;
-        this.postMessage({
-          type: "progress",
-          data: { progress },
-        });
       }
+      this.outputFill += count;
+      start += count;
 
-      read = 0;
-      while (read < inputLength) {
-        const chunkSize = Math.min(samplesRequired, inputLength - read);
-        const isFinal = read + chunkSize >= inputLength;
-
-        for (let ch = 0; ch < channels; ch++) {
-          const inputData = inputChannels[ch].subarray(read, read + chunkSize);
-          this.module.HEAPF32.set(inputData, channelDataPtrs[ch] >> 2);
-        }
-
-        this.wrappedFunctions.rubberband_process(
-          stretcher,
-          inputPtrs,
-          chunkSize,
-          isFinal ? 1 : 0
-        );
-        this.tryRetrieveOutput(
-          stretcher,
-          outputPtrs,
-          outputChunks,
-          channels,
-          samplesRequired,
-          false
-        );
-
-        read += chunkSize;
-
-        const progress = 50 + (read / inputLength) * 50;
-        this.postMessage({
-          type: "progress",
-          data: { progress },
-        });
+      if (this.outputFill === OUTPUT_BLOCK_SIZE) {
+        this.flushOutput();
       }
+    }
+  }
 
-      this.tryRetrieveOutput(
-        stretcher,
-        outputPtrs,
-        outputChunks,
-        channels,
-        samplesRequired,
-        true
-      );
-
-      const totalLength = outputChunks.reduce(
-        (sum, chunk) => sum + chunk[0].length,
-        0
-      );
-      const outputChannels: Float32Array[] = [];
-
-      for (let ch = 0; ch < channels; ch++) {
-        const channelData = new Float32Array(totalLength);
-        let offset = 0;
-
-        for (const chunk of outputChunks) {
-          channelData.set(chunk[ch], offset);
-          offset += chunk[ch].length;
-        }
+  // Hand the filled part of the block to the main thread without copying
+  private flushOutput() {
+    if (this.outputFill === 0) return;
+
+    const outputChannels =
+      this.outputFill === OUTPUT_BLOCK_SIZE
+        ? this.outputBlock
+        : this.outputBlock.map((block) => block.slice(0, this.outputFill));
+    this.postMessage(
+      {
+        type: "output",
+        id: this.currentJobId!,
+        data: { outputChannels },
+      },
+      outputChannels.map((channel) => channel.buffer)
+    );
 
-        outputChannels.push(channelData);
-      }
+    this.outputBlock = this.outputBlock.map(
+      () => new Float32Array(OUTPUT_BLOCK_SIZE)
+    );
+    this.outputFill = 0;
+  }
 
-      return outputChannels;
-    } finally {
-      channelDataPtrs.forEach((ptr) => this.module._free(ptr));
-      this.module._free(inputPtrs);
-      this.module._free(outputPtrs);
+  private concatenate(blocks: Float32Array[]): Float32Array {
+    const output = new Float32Array(
+      blocks.reduce((sum, block) => sum + block.length, 0)
+    );
+    let offset = 0;
+    for (const block of blocks) {
+      output.set(block, offset);
+      offset += block.length;
     }
+    return output;
   }
 
-  private tryRetrieveOutput(
-    stretcher: number,
-    outputPtrs: number,
-    outputChunks: Float32Array[][],
-    channels: number,
-    samplesRequired: number,
-    final: boolean
-  ) {
-    while (true) {
-      const available = this.wrappedFunctions.rubberband_available(stretcher);
-      if (available < 1) break;
-      if (!final && available < samplesRequired) break;
-
-      const outputBuffers: number[] = [];
-      try {
-        for (let ch = 0; ch < channels; ch++) {
-          const outputBuffer = this.module._malloc(available * 4);
-          outputBuffers.push(outputBuffer);
-          this.module.HEAPU32[(outputPtrs >> 2) + ch] = outputBuffer;
-        }
-
-        const retrieved = this.wrappedFunctions.rubberband_retrieve(
-          stretcher,
-          outputPtrs,
-          Math.min(samplesRequired, available)
-        );
+  private postProgress(progress: number) {
+    this.postMessage({
+      type: "progress",
+      id: this.currentJobId!,
+      data: { progress: this.progressOffset + progress * this.progressScale },
+    });
+  }
 
-        if (retrieved > 0) {
-          const outputChunk: Float32Array[] = [];
-          for (let ch = 0; ch < channels; ch++) {
-            const outputData = new Float32Array(retrieved);
-            outputData.set(
-              this.module.HEAPF32.subarray(
-                outputBuffers[ch] >> 2,
-                (outputBuffers[ch] >> 2) + retrieved
-              )
-            );
-            outputChunk.push(outputData);
-          }
-          outputChunks.push(outputChunk);
-        }
-      } finally {
-        outputBuffers.forEach((buffer) => this.module._free(buffer));
-      }
-    }
+  private postComplete() {
+    this.flushOutput();
+    this.postMessage({ type: "complete", id: this.currentJobId! });
   }
 
-  private postMessage(message: WorkerResponse) {
-    self.postMessage(message);
+  private postMessage(message: WorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(message, { transfer });
   }
 }
 
@@ -0,0 +1,357 @@
+import { readFile, writeFile } from "fs/promises";
+import { createRequire } from "module";
+import { basename, extname } from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import { loadRubberBand } from "./audio/RubberBand";
+import { StretchRenderer } from "./audio/StretchRenderer";
+import { StretchEngine } from "./audio/StretchOptions";
+import { decodeWav, isWav } from "./audio/WavDecoder";
+import {
+  DitherMode,
+  WavBitDepth,
+  WavOptions,
+  encodeWav,
+} from "./audio/WavEncoder";
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: audio-transposer <input> -o <output> [options]
+
+Options:
+  -o, --output <file>     Where to write the result: .wav, or any format
+                          FFmpeg can encode
+  -s, --semitones <n>     Pitch shift in semitones (default 0)
+  -c, --cents <n>         Fine tuning in cents (default 0)
+  -t, --tempo <ratio>     Speed, 1 = original, 0.9 = 10% slower (default 1)
+      --engine <name>     faster or finer (default faster)
+      --formants          Preserve formants
+      --bit-depth <n>     WAV output: 16, 24 or 32 for float (default 16)
+      --sample-rate <hz>  Resample the output
+      --dither <mode>     none, tpdf or shaped (default tpdf)
+  -q, --quiet             Don't report progress
+  -h, --help              Show this help
+
+Formats other than WAV need the @ffmpeg/core package.
+Exit codes: 0 done, 1 failed, 2 bad arguments.`;
+
+const OPTIONS = {
+  output: { type: "string", short: "o" },
+  semitones: { type: "string", short: "s" },
+  cents: { type: "string", short: "c" },
+  tempo: { type: "string", short: "t" },
+  engine: { type: "string" },
+  formants: { type: "boolean" },
+  "bit-depth": { type: "string" },
+  "sample-rate": { type: "string" },
+  dither: { type: "string" },
+  quiet: { type: "boolean", short: "q" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+interface CliOptions {
+  input: string;
+  output: string;
+  semitones: number;
+  tempo: number;
+  engine: StretchEngine;
+  preserveFormants: boolean;
+  wav: WavOptions;
+  quiet: boolean;
+}
+
+/**
+ * parseArgs takes "-2" for an option of its own, so `--semitones -2` is
+ * rewritten as `--semitones=-2` before parsing.
+ */
+function joinNegativeValues(args: string[]): string[] {
+  const joined: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const name = Object.entries(OPTIONS).find(
+      ([long, option]) =>
+        option.type === "string" &&
+        (args[i] === `--${long}` ||
+          ("short" in option && args[i] === `-${option.short}`))
+    )?.[0];
+    if (name && /^-\.?\d/.test(args[i + 1] ?? "")) {
+      joined.push(`--${name}=${args[++i]}`);
+    } else {
+      joined.push(args[i]);
+    }
+  }
+  return joined;
+}
+
+function parseNumber(name: string, value: string | undefined, fallback = 0) {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (value.trim() === "" || !isFinite(number)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseOptions(args: string[]): CliOptions | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: joinNegativeValues(args),
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  if (positionals.length !== 1) {
+    throw new UsageError(
+      positionals.length === 0
+        ? "No input file given"
+        : `Expected one input file, got ${positionals.length}`
+    );
+  }
+  if (!values.output) {
+    throw new UsageError("No output file given; use -o <file>");
+  }
+
+  const tempo = parseNumber("tempo", values.tempo, 1);
+  if (tempo <= 0) {
+    throw new UsageError("--tempo must be greater than 0");
+  }
+
+  const engine = values.engine ?? "faster";
+  if (engine !== "faster" && engine !== "finer") {
+    throw new UsageError(`--engine must be faster or finer, got "${engine}"`);
+  }
+
+  const bitDepth = parseNumber("bit-depth", values["bit-depth"], 16);
+  if (![16, 24, 32].includes(bitDepth)) {
+    throw new UsageError("--bit-depth must be 16, 24 or 32");
+  }
+
+  const sampleRate = values["sample-rate"]
+    ? parseNumber("sample-rate", values["sample-rate"])
+    : undefined;
+  if (sampleRate !== undefined && (sampleRate <= 0 || sampleRate % 1 !== 0)) {
+    throw new UsageError("--sample-rate must be a whole number of hertz");
+  }
+
+  const dither = values.dither ?? "tpdf";
+  if (!["none", "tpdf", "shaped"].includes(dither)) {
+    throw new UsageError("--dither must be none, tpdf or shaped");
+  }
+
+  return {
+    input: positionals[0],
+    output: values.output,
+    semitones:
+      parseNumber("semitones", values.semitones) +
+      parseNumber("cents", values.cents) / 100,
+    tempo,
+    engine,
+    preserveFormants: values.formants ?? false,
+    wav: {
+      bitDepth: bitDepth as WavBitDepth,
+      sampleRate,
+      dither: dither as DitherMode,
+    },
+    quiet: values.quiet ?? false,
+  };
+}
+
+/**
+ * Load FFmpeg's single-threaded core straight into this process. It's built
+ * for browsers and workers, so it's handed its WASM bytes and a script
+ * location rather than left to fetch them.
+ */
+async function loadFFmpeg(): Promise<any> {
+  const require = createRequire(import.meta.url);
+  let corePath: string;
+  try {
+    corePath = require.resolve("@ffmpeg/core");
+  } catch {
+    throw new Error(
+      "Only WAV is supported without FFmpeg; install @ffmpeg/core for other formats"
+    );
+  }
+
+  const createCore = require(corePath);
+  const wasmBinary = await readFile(corePath.replace(/\.js$/, ".wasm"));
+  const global = globalThis as any;
+  const previousSelf = global.self;
+  global.self = { location: { href: pathToFileURL(corePath).href } };
+  try {
+    const core = await createCore({ wasmBinary });
+    core.setLogger(() => {});
+    return core;
+  } finally {
+    global.self = previousSelf;
+  }
+}
+
+// Run one FFmpeg conversion over in-memory files
+async function convertWithFFmpeg(
+  data: Uint8Array,
+  inputName: string,
+  outputName: string,
+  args: string[] = []
+): Promise<Uint8Array> {
+  const ffmpeg = await loadFFmpeg();
+  ffmpeg.FS.writeFile(inputName, data);
+  const result = ffmpeg.exec("-i", inputName, ...args, outputName);
+  if (result !== 0) {
+    throw new Error(`FFmpeg couldn't convert ${inputName} to ${outputName}`);
+  }
+  return ffmpeg.FS.readFile(outputName);
+}
+
+function reportProgress(quiet: boolean) {
+  const interactive = process.stderr.isTTY;
+  let lastLine = "";
+
+  return (stage: string, progress: number) => {
+    if (quiet) return;
+    // Logs only get a line per tenth, terminals redraw in place
+    const shown = interactive
+      ? Math.floor(progress)
+      : Math.floor(progress / 10) * 10;
+    const line = `${stage} ${shown}%`;
+    if (line === lastLine) return;
+    lastLine = line;
+    process.stderr.write(interactive ? `\r\x1b[K${line}` : `${line}\n`);
+  };
+}
+
+async function run(options: CliOptions) {
+  const progress = reportProgress(options.quiet);
+
+  progress("Decoding", 0);
+  let data = toArrayBuffer(await readFile(options.input));
+  if (!isWav(data)) {
+    // Float keeps whatever headroom the source had
+    data = toArrayBuffer(
+      await convertWithFFmpeg(
+        new Uint8Array(data),
+        `input${extname(options.input)}`,
+        "decoded.wav",
+        ["-f", "wav", "-acodec", "pcm_f32le"]
+      )
+    );
+  }
+  const { sampleRate, channels } = decodeWav(data);
+  progress("Decoding", 100);
+
+  const output: Float32Array[][] = [];
+  const renderer = new StretchRenderer(await loadRubberBand());
+  await renderer.render(
+    channels,
+    {
+      sampleRate,
+      semitones: options.semitones,
+      tempo: options.tempo,
+      stretchOptions: {
+        engine: options.engine,
+        preserveFormants: options.preserveFormants,
+      },
+    },
+    {
+      onOutput: (block) => output.push(block.map((channel) => channel.slice())),
+      onProgress: (percent) => progress("Processing", percent),
+      checkpoint: async () => {},
+    }
+  );
+
+  progress("Encoding", 0);
+  const stretched = channels.map((_, ch) =>
+    concatenate(output.map((block) => block[ch]))
+  );
+  const isWavOutput = extname(options.output).toLowerCase() === ".wav";
+  const wav = new Uint8Array(
+    encodeWav(
+      stretched,
+      sampleRate,
+      isWavOutput ? options.wav : { ...options.wav, bitDepth: 32 }
+    )
+  );
+  await writeFile(
+    options.output,
+    isWavOutput
+      ? wav
+      : await convertWithFFmpeg(
+          wav,
+          "stretched.wav",
+          `output${extname(options.output)}`
+        )
+  );
+  progress("Encoding", 100);
+
+  if (!options.quiet) {
+    process.stderr.write(
+      `${process.stderr.isTTY ? "\n" : ""}Wrote ${basename(options.output)}\n`
+    );
+  }
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+}
+
+function concatenate(blocks: Float32Array[]): Float32Array {
+  const output = new Float32Array(
+    blocks.reduce((sum, block) => sum + block.length, 0)
+  );
+  let offset = 0;
+  for (const block of blocks) {
+    output.set(block, offset);
+    offset += block.length;
+  }
+  return output;
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`audio-transposer: ${error.message}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  try {
+    await run(options);
+    return 0;
+  } catch (error) {
+    process.stderr.write(
+      `\naudio-transposer: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`
+    );
+    return EXIT_FAILURE;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -1,18 +1,46 @@
 import { AudioProcessor } from "./audio/AudioProcessor";
-import { PitchShifter } from "./audio/PitchShifter";
-import { AudioExporter } from "./audio/AudioExporter";
+import {
+  PitchShifter,
+  ShiftPitchOptions,
+  TimeRegion,
+} from "./audio/PitchShifter";
+import { AudioExporter, ExportSettings } from "./audio/AudioExporter";
+import { LivePreview } from "./audio/LivePreview";
+import { LoopPlayer } from "./audio/LoopPlayer";
+import { RenderCache } from "./audio/RenderCache";
+import { KeyDetector } from "./audio/KeyDetector";
+import { TempoDetector } from "./audio/TempoDetector";
+import { TuningDetector } from "./audio/TuningDetector";
+import { measureLoudness } from "./audio/Loudness";
+import { TrackAnalysis, matchReference } from "./audio/ReferenceMatch";
+import { isAbortError, throwIfAborted } from "./audio/Abort";
 import { UIController } from "./ui/UIController";
+import { BatchSettings, BatchUpdate } from "./ui/BatchQueue";
+import { hashData } from "./ui/Project";
 
 class PitchShifterApp {
   private audioProcessor: AudioProcessor;
   private pitchShifter: PitchShifter;
   private audioExporter: AudioExporter;
+  private livePreview: LivePreview;
+  private loopPlayer: LoopPlayer;
+  private renderCache: RenderCache;
+  private keyDetector: KeyDetector;
+  private tempoDetector: TempoDetector;
+  private tuningDetector: TuningDetector;
   private uiController: UIController;
+  private analysis: TrackAnalysis | null = null;
 
   constructor() {
     this.audioProcessor = new AudioProcessor();
     this.pitchShifter = new PitchShifter();
     this.audioExporter = new AudioExporter();
+    this.livePreview = new LivePreview();
+    this.loopPlayer = new LoopPlayer();
+    this.renderCache = new RenderCache();
+    this.keyDetector = new KeyDetector();
+    this.tempoDetector = new TempoDetector();
+    this.tuningDetector = new TuningDetector();
     this.uiController = new UIController();
   }
 
@@ -20,6 +48,11 @@ class PitchShifterApp {
     await this.pitchShifter.init();
     await this.audioExporter.init();
     this.uiController.init(this.handleFileUpload.bind(this));
+    this.uiController.enableBatchExport(this.handleBatchExport.bind(this));
+    this.uiController.enableRenderCache(
+      (persistent) => this.renderCache.setPersistent(persistent),
+      () => this.renderCache.clear()
+    );
     console.log("Pitch Shifter Web App initialized");
   }
 
@@ -27,13 +60,54 @@ class PitchShifterApp {
     try {
       this.uiController.setStatus("Loading audio file...");
 
-      const audioBuffer = await this.audioProcessor.decodeAudioFile(file);
+      // Hashed first: decoding takes the bytes over
+      const data = await file.arrayBuffer();
+      const hash = await hashData(data);
+      const audioBuffer = await this.audioProcessor.decodeAudioFile(file, data);
       this.uiController.setStatus("Audio file loaded successfully");
 
       this.uiController.enableControls(
         audioBuffer,
         this.handlePitchShift.bind(this)
       );
+      this.uiController.enableExport(this.handleExport.bind(this));
+
+      const key = this.keyDetector.detect(audioBuffer);
+      console.log(
+        `Detected key: ${key.name} (confidence ${key.confidence.toFixed(2)})`
+      );
+      this.uiController.setDetectedKey(key);
+
+      const tempo = this.tempoDetector.detect(audioBuffer);
+      console.log(
+        tempo
+          ? `Detected tempo: ${tempo.bpm.toFixed(1)} BPM (confidence ${tempo.confidence.toFixed(2)})`
+          : "Audio too short to detect tempo"
+      );
+      this.uiController.setDetectedTempo(tempo);
+
+      const tuning = this.tuningDetector.detect(audioBuffer);
+      if (tuning) {
+        console.log(
+          `Measured tuning: ${tuning.cents.toFixed(1)} cents from A=440 (confidence ${tuning.confidence.toFixed(2)})`
+        );
+      }
+      this.uiController.setMeasuredTuning(tuning);
+
+      this.analysis = { key, tuning };
+      this.uiController.enableReferenceMatch(
+        this.handleReferenceUpload.bind(this)
+      );
+      this.uiController.enableLoopPractice(
+        this.loopPlayer,
+        this.handleRenderPassage.bind(this)
+      );
+
+      this.livePreview.setSource(audioBuffer);
+      this.uiController.enableLivePreview(this.livePreview);
+
+      // Last, so an opened project lands on top of the detected values
+      this.uiController.setSource({ name: file.name, hash });
     } catch (error) {
       console.error("Error processing audio file:", error);
       this.uiController.setStatus(
@@ -42,25 +116,85 @@ class PitchShifterApp {
     }
   }
 
+  // Compare a reference recording with the loaded one and match it
+  private async handleReferenceUpload(file: File) {
+    try {
+      if (!this.analysis) {
+        throw new Error("Load an audio file first");
+      }
+
+      const referenceBuffer = await this.audioProcessor.decodeAudioFile(file);
+      const reference: TrackAnalysis = {
+        key: this.keyDetector.detect(referenceBuffer),
+        tuning: this.tuningDetector.detect(referenceBuffer),
+      };
+      const match = matchReference(this.analysis, reference);
+      console.log("Reference analysis:", reference, "match:", match);
+
+      const referenceCents = reference.tuning?.cents ?? 0;
+      this.uiController.applyReferenceMatch(
+        match,
+        `${file.name}: ${reference.key.name}, ${referenceCents >= 0 ? "+" : ""}${referenceCents.toFixed(1)} cents`
+      );
+      this.uiController.setStatus(
+        `Matched to reference: ${match.semitones >= 0 ? "+" : ""}${match.semitones} semitones, ${match.cents >= 0 ? "+" : ""}${match.cents} cents`,
+        "success"
+      );
+    } catch (error) {
+      console.error("Error analysing reference track:", error);
+      this.uiController.referenceMatchFailed(`Could not analyse ${file.name}`);
+      this.uiController.setStatus(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  }
+
   private async handlePitchShift(
     audioBuffer: AudioBuffer,
     semitones: number,
-    tempo: number
+    tempo: number,
+    options: ShiftPitchOptions
   ) {
     try {
-      const processedBuffer = await this.pitchShifter.shiftPitch(
+      const cacheKey = await this.renderCache.keyFor(
         audioBuffer,
         semitones,
         tempo,
-        (progress: number) => {
-          this.uiController.updateProgress(progress);
-        }
+        options
       );
+      let processedBuffer = await this.renderCache.get(cacheKey);
+
+      if (processedBuffer) {
+        console.log("Using cached render");
+      } else {
+        processedBuffer = await this.pitchShifter.shiftPitch(
+          audioBuffer,
+          semitones,
+          tempo,
+          (progress: number) => {
+            this.uiController.updateProgress(progress);
+          },
+          options
+        );
+
+        // Unchanged settings hand back the input itself; nothing to keep.
+        // Not awaited so writing to IndexedDB doesn't delay playback.
+        if (processedBuffer !== audioBuffer) {
+          this.renderCache.set(cacheKey, processedBuffer);
+        }
+      }
+
       this.uiController.setProcessedAudio(processedBuffer);
+      this.uiController.setLoudness(measureLoudness(processedBuffer));
       this.uiController.enableExport(this.handleExport.bind(this));
     } catch (error) {
-      console.error("Error pitch shifting:", error);
       this.uiController.resetLoadingStates();
+      if (isAbortError(error)) {
+        this.uiController.setStatus("Processing cancelled");
+        return;
+      }
+      console.error("Error pitch shifting:", error);
       this.uiController.setStatus(
         `Error: ${error instanceof Error ? error.message : String(error)}`,
         "error"
@@ -68,13 +202,91 @@ class PitchShifterApp {
     }
   }
 
-  private async handleExport(audioBuffer: AudioBuffer) {
+  // Speed trainer passes; short enough that they skip the render cache
+  private handleRenderPassage(
+    audioBuffer: AudioBuffer,
+    region: TimeRegion,
+    semitones: number,
+    tempo: number,
+    options: ShiftPitchOptions
+  ): Promise<AudioBuffer> {
+    return this.pitchShifter.renderPassage(
+      audioBuffer,
+      region,
+      semitones,
+      tempo,
+      options
+    );
+  }
+
+  // Render and export every queued file in turn with the same settings
+  private async handleBatchExport(
+    files: File[],
+    settings: BatchSettings,
+    signal: AbortSignal,
+    onUpdate: (index: number, update: BatchUpdate) => void
+  ) {
+    for (let i = 0; i < files.length; i++) {
+      if (signal.aborted) {
+        onUpdate(i, { status: "cancelled" });
+        continue;
+      }
+
+      try {
+        onUpdate(i, { status: "processing", progress: 0 });
+        const audioBuffer = await this.audioProcessor.decodeAudioFile(files[i]);
+        throwIfAborted(signal);
+
+        const processedBuffer = await this.pitchShifter.shiftPitch(
+          audioBuffer,
+          settings.semitones,
+          settings.tempo,
+          (progress: number) => {
+            // Leave the last stretch of the bar for encoding
+            onUpdate(i, { status: "processing", progress: progress * 0.9 });
+          },
+          { ...settings.options, signal }
+        );
+
+        const result = await this.audioExporter.encode(
+          processedBuffer,
+          settings.export,
+          signal
+        );
+        onUpdate(i, { status: "done", result });
+      } catch (error) {
+        if (isAbortError(error)) {
+          onUpdate(i, { status: "cancelled" });
+          continue;
+        }
+        console.error(`Error exporting ${files[i].name}:`, error);
+        onUpdate(i, {
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private async handleExport(
+    audioBuffer: AudioBuffer,
+    signal: AbortSignal,
+    settings: ExportSettings
+  ) {
     try {
-      const m4aBlob = await this.audioExporter.exportToM4A(audioBuffer);
-      this.uiController.downloadFile(m4aBlob);
+      const blob = await this.audioExporter.encode(
+        audioBuffer,
+        settings,
+        signal
+      );
+      this.uiController.downloadFile(blob);
     } catch (error) {
-      console.error("Error exporting audio:", error);
       this.uiController.resetLoadingStates();
+      if (isAbortError(error)) {
+        this.uiController.setStatus("Export cancelled");
+        return;
+      }
+      console.error("Error exporting audio:", error);
       this.uiController.setStatus(
         `Error: ${error instanceof Error ? error.message : String(error)}`,
         "error"
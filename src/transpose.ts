@@ -0,0 +1,197 @@
+import workerCode from "embedded:pitch-shifter-worker";
+import { AudioProcessor } from "./audio/AudioProcessor";
+import { PitchShifter, ShiftPitchOptions } from "./audio/PitchShifter";
+import {
+  AudioExporter,
+  ExportFormat,
+  ExportMetadata,
+} from "./audio/AudioExporter";
+import { WavOptions } from "./audio/WavEncoder";
+import { throwIfAborted } from "./audio/Abort";
+
+export type { ShiftPitchOptions, TimeRegion } from "./audio/PitchShifter";
+export type { StretchOptions } from "./audio/StretchOptions";
+export type { Automation, Keyframe } from "./audio/Automation";
+export type { ChannelMode } from "./audio/ChannelMode";
+export type { VocalReduction } from "./audio/VocalReduction";
+export type { ExportFormat, ExportMetadata } from "./audio/AudioExporter";
+export type { WavOptions } from "./audio/WavEncoder";
+
+export type TransposeStage = "decoding" | "processing" | "encoding";
+
+export interface TransposeProgress {
+  stage: TransposeStage;
+  progress: number; // 0-100 over the whole job
+}
+
+interface BaseTransposeOptions extends ShiftPitchOptions {
+  semitones?: number;
+  cents?: number;
+  tempo?: number; // ratio, 1.0 = original speed
+  // Only used to recognise formats the browser can't decode, e.g. "a.m4a"
+  fileName?: string;
+  onProgress?: (event: TransposeProgress) => void;
+}
+
+export interface AudioBufferTransposeOptions extends BaseTransposeOptions {
+  output?: "audio-buffer";
+}
+
+export interface EncodedTransposeOptions extends BaseTransposeOptions {
+  output: ExportFormat;
+  wav?: WavOptions;
+  metadata?: ExportMetadata;
+  // Normalize to this integrated loudness first, in LUFS
+  loudnessTarget?: number | null;
+}
+
+export type TransposeOptions =
+  | AudioBufferTransposeOptions
+  | EncodedTransposeOptions;
+
+// Share of the progress given to the pitch shift when encoding follows
+const PROCESSING_SHARE = 90;
+
+function createEmbeddedWorker(): Worker {
+  const url = URL.createObjectURL(
+    new Blob([workerCode], { type: "application/javascript" })
+  );
+  return new Worker(url, { type: "module" });
+}
+
+/**
+ * The page's decoding, RubberBand processing and export without the page:
+ * nothing here touches the DOM, so other apps can import it on its own.
+ * Workers start on first use and stay up until `dispose()`, so keep one
+ * Transposer around for several jobs.
+ */
+export class Transposer {
+  private audioProcessor: AudioProcessor | null = null;
+  private pitchShifter: PitchShifter;
+  private audioExporter: AudioExporter;
+  private ready: Promise<void> | null = null;
+
+  constructor() {
+    this.pitchShifter = new PitchShifter(createEmbeddedWorker);
+    this.audioExporter = new AudioExporter();
+  }
+
+  transpose(
+    input: ArrayBuffer | AudioBuffer,
+    options?: AudioBufferTransposeOptions
+  ): Promise<AudioBuffer>;
+  transpose(
+    input: ArrayBuffer | AudioBuffer,
+    options: EncodedTransposeOptions
+  ): Promise<Blob>;
+  async transpose(
+    input: ArrayBuffer | AudioBuffer,
+    options: TransposeOptions = {}
+  ): Promise<AudioBuffer | Blob> {
+    const {
+      semitones = 0,
+      cents = 0,
+      tempo = 1.0,
+      fileName,
+      onProgress,
+      signal,
+    } = options;
+    const encoded =
+      options.output !== undefined && options.output !== "audio-buffer";
+    const processingShare = encoded ? PROCESSING_SHARE : 100;
+
+    await this.init();
+    throwIfAborted(signal);
+
+    let audioBuffer: AudioBuffer;
+    if (input instanceof AudioBuffer) {
+      audioBuffer = input;
+    } else {
+      onProgress?.({ stage: "decoding", progress: 0 });
+      // The AudioContext is only created once something needs decoding
+      this.audioProcessor ??= new AudioProcessor();
+      audioBuffer = await this.audioProcessor.decodeAudioData(input, fileName);
+      throwIfAborted(signal);
+    }
+
+    const processedBuffer = await this.pitchShifter.shiftPitch(
+      audioBuffer,
+      semitones + cents / 100,
+      tempo,
+      (progress: number) =>
+        onProgress?.({
+          stage: "processing",
+          progress: (progress * processingShare) / 100,
+        }),
+      options
+    );
+    onProgress?.({ stage: "processing", progress: processingShare });
+
+    if (!encoded) {
+      return processedBuffer;
+    }
+
+    const {
+      output,
+      wav = {},
+      metadata = {},
+      loudnessTarget = null,
+    } = options as EncodedTransposeOptions;
+    onProgress?.({ stage: "encoding", progress: processingShare });
+    const blob = await this.audioExporter.encode(
+      processedBuffer,
+      { format: output, wav, metadata, loudnessTarget },
+      signal
+    );
+    onProgress?.({ stage: "encoding", progress: 100 });
+    return blob;
+  }
+
+  // Stops the workers; the next transpose() starts them again
+  dispose() {
+    this.pitchShifter.terminate();
+    this.ready = null;
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        this.pitchShifter.init(),
+        this.audioExporter.init(),
+      ]).then(
+        () => undefined,
+        (error) => {
+          // Let a later call try again rather than failing for good
+          this.ready = null;
+          throw error;
+        }
+      );
+    }
+    return this.ready;
+  }
+}
+
+let sharedTransposer: Transposer | null = null;
+
+/**
+ * Transpose audio in one call. Encoded or compressed input is decoded
+ * first; the result is an AudioBuffer unless `output` asks for a file.
+ *
+ *   const wav = await transpose(bytes, { semitones: -2, output: "wav" });
+ */
+export function transpose(
+  input: ArrayBuffer | AudioBuffer,
+  options?: AudioBufferTransposeOptions
+): Promise<AudioBuffer>;
+export function transpose(
+  input: ArrayBuffer | AudioBuffer,
+  options: EncodedTransposeOptions
+): Promise<Blob>;
+export function transpose(
+  input: ArrayBuffer | AudioBuffer,
+  options: TransposeOptions = {}
+): Promise<AudioBuffer | Blob> {
+  sharedTransposer ??= new Transposer();
+  // Either overload will do; the options decide what comes back
+  return sharedTransposer.transpose(input, options as EncodedTransposeOptions);
+}
@@ -0,0 +1,6 @@
+// The bundled pitch shifter worker's source, provided by build.js to the
+// library build so it can start workers without a separate file
+declare module "embedded:pitch-shifter-worker" {
+  const workerCode: string;
+  export default workerCode;
+}
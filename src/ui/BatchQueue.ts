@@ -0,0 +1,196 @@
+import { ShiftPitchOptions } from "../audio/PitchShifter";
+import { ExportSettings } from "../audio/AudioExporter";
+import { createZip } from "../audio/ZipArchive";
+
+// What every file in a batch is rendered and exported with
+export interface BatchSettings {
+  semitones: number;
+  tempo: number;
+  options: ShiftPitchOptions;
+  export: ExportSettings;
+}
+
+export type BatchStatus =
+  | "queued"
+  | "processing"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface BatchUpdate {
+  status: BatchStatus;
+  progress?: number; // 0-100 while processing
+  result?: Blob;
+  filename?: string;
+  error?: string;
+}
+
+interface BatchItem {
+  file: File;
+  update: BatchUpdate;
+  row: HTMLTableRowElement;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: "Queued",
+  processing: "Processing",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * The list of files waiting for a batch export, each with its status and,
+ * once rendered, a download link. Finished files can also be collected
+ * into a single ZIP archive.
+ */
+export class BatchQueue {
+  private container: HTMLElement;
+  private rows: HTMLElement;
+  private exportAllBtn: HTMLButtonElement;
+  private zipBtn: HTMLButtonElement;
+  private clearBtn: HTMLButtonElement;
+
+  private items: BatchItem[] = [];
+  private running = false;
+  private onExportAll: (() => void) | null = null;
+  private onDownload: ((blob: Blob, filename: string) => void) | null = null;
+
+  constructor() {
+    this.container = document.getElementById("batchQueue")!;
+    this.rows = document.getElementById("batchRows")!;
+    this.exportAllBtn = document.getElementById(
+      "batchExportBtn"
+    ) as HTMLButtonElement;
+    this.zipBtn = document.getElementById("batchZipBtn") as HTMLButtonElement;
+    this.clearBtn = document.getElementById(
+      "batchClearBtn"
+    ) as HTMLButtonElement;
+  }
+
+  init(
+    onExportAll: () => void,
+    onDownload: (blob: Blob, filename: string) => void
+  ) {
+    this.onExportAll = onExportAll;
+    this.onDownload = onDownload;
+
+    this.exportAllBtn.addEventListener("click", () => this.onExportAll?.());
+    this.zipBtn.addEventListener("click", this.handleZip.bind(this));
+    this.clearBtn.addEventListener("click", this.clear.bind(this));
+  }
+
+  add(files: File[]) {
+    for (const file of files) {
+      const row = document.createElement("tr");
+      const item: BatchItem = { file, update: { status: "queued" }, row };
+      this.items.push(item);
+      this.rows.appendChild(row);
+      this.render(item);
+    }
+    this.updateButtons();
+  }
+
+  getFiles(): File[] {
+    return this.items.map((item) => item.file);
+  }
+
+  setRunning(running: boolean) {
+    this.running = running;
+    if (running) {
+      // Start every file afresh, dropping results from an earlier run
+      this.items.forEach((_, index) =>
+        this.update(index, { status: "queued" })
+      );
+    }
+    this.updateButtons();
+  }
+
+  update(index: number, update: BatchUpdate) {
+    const item = this.items[index];
+    if (!item) return;
+
+    item.update = update;
+    this.render(item);
+    this.updateButtons();
+  }
+
+  private clear() {
+    if (this.running) return;
+
+    this.items = [];
+    this.rows.innerHTML = "";
+    this.updateButtons();
+  }
+
+  private render(item: BatchItem) {
+    const { status, progress, result, filename, error } = item.update;
+    item.row.innerHTML = "";
+
+    const name = document.createElement("td");
+    name.textContent = item.file.name;
+    item.row.appendChild(name);
+
+    const state = document.createElement("td");
+    state.className = `batch-status ${status}`;
+    state.textContent =
+      status === "processing" && progress !== undefined
+        ? `${STATUS_LABELS[status]} ${Math.round(progress)}%`
+        : STATUS_LABELS[status];
+    if (error) state.title = error;
+    item.row.appendChild(state);
+
+    const action = document.createElement("td");
+    if (result && filename) {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = "btn-small";
+      button.textContent = "Download";
+      button.addEventListener("click", () =>
+        this.onDownload?.(result, filename)
+      );
+      action.appendChild(button);
+    }
+    item.row.appendChild(action);
+  }
+
+  private updateButtons() {
+    this.container.hidden = this.items.length === 0;
+    this.exportAllBtn.disabled = this.running || this.items.length === 0;
+    this.clearBtn.disabled = this.running;
+    this.zipBtn.disabled = this.running || this.finishedItems().length === 0;
+  }
+
+  private finishedItems(): BatchItem[] {
+    return this.items.filter((item) => item.update.result);
+  }
+
+  private async handleZip() {
+    const entries = this.finishedItems().map((item) => ({
+      name: item.update.filename!,
+      data: item.update.result!,
+    }));
+
+    // Songs with the same name would otherwise overwrite each other
+    const seen = new Map<string, number>();
+    for (const entry of entries) {
+      const count = seen.get(entry.name) ?? 0;
+      seen.set(entry.name, count + 1);
+      if (count > 0) {
+        const dot = entry.name.lastIndexOf(".");
+        entry.name =
+          dot > 0
+            ? `${entry.name.slice(0, dot)} (${count})${entry.name.slice(dot)}`
+            : `${entry.name} (${count})`;
+      }
+    }
+
+    this.zipBtn.disabled = true;
+    try {
+      const zip = await createZip(entries);
+      this.onDownload?.(zip, "transposed.zip");
+    } finally {
+      this.updateButtons();
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  Automation,
+  Keyframe,
+  KeyframeInterpolation,
+  sortKeyframes,
+} from "../audio/Automation";
+
+export class KeyframeEditor {
+  private rows: HTMLElement;
+  private addKeyframeBtn: HTMLButtonElement;
+  private interpolationSelect: HTMLSelectElement;
+
+  private keyframes: Keyframe[] = [];
+  private createKeyframe: (() => Keyframe) | null = null;
+  private onChange: (() => void) | null = null;
+
+  constructor() {
+    this.rows = document.getElementById("keyframeRows")!;
+    this.addKeyframeBtn = document.getElementById(
+      "addKeyframeBtn"
+    ) as HTMLButtonElement;
+    this.interpolationSelect = document.getElementById(
+      "interpolationSelect"
+    ) as HTMLSelectElement;
+  }
+
+  init(createKeyframe: () => Keyframe, onChange: () => void) {
+    this.createKeyframe = createKeyframe;
+    this.onChange = onChange;
+
+    this.addKeyframeBtn.addEventListener("click", this.handleAdd.bind(this));
+    this.interpolationSelect.addEventListener("change", () =>
+      this.onChange?.()
+    );
+  }
+
+  getAutomation(): Automation | undefined {
+    if (this.keyframes.length === 0) return undefined;
+
+    return {
+      keyframes: sortKeyframes(this.keyframes),
+      interpolation: this.interpolationSelect.value as KeyframeInterpolation,
+    };
+  }
+
+  setAutomation(automation: Automation | undefined) {
+    this.keyframes = automation ? sortKeyframes(automation.keyframes) : [];
+    this.interpolationSelect.value = automation?.interpolation ?? "linear";
+    this.render();
+  }
+
+  clear() {
+    this.setAutomation(undefined);
+  }
+
+  private handleAdd() {
+    if (!this.createKeyframe) return;
+
+    this.keyframes = sortKeyframes([...this.keyframes, this.createKeyframe()]);
+    this.render();
+    this.onChange?.();
+  }
+
+  private handleRemove(keyframe: Keyframe) {
+    this.keyframes = this.keyframes.filter((k) => k !== keyframe);
+    this.render();
+    this.onChange?.();
+  }
+
+  private render() {
+    this.rows.innerHTML = "";
+
+    for (const keyframe of this.keyframes) {
+      const row = document.createElement("tr");
+
+      row.appendChild(
+        this.createCell(keyframe.time.toFixed(2), "0.01", (value) => {
+          keyframe.time = Math.max(0, value);
+        })
+      );
+      row.appendChild(
+        this.createCell(keyframe.semitones.toString(), "0.01", (value) => {
+          keyframe.semitones = value;
+        })
+      );
+      row.appendChild(
+        this.createCell(
+          Math.round(keyframe.tempo * 100).toString(),
+          "1",
+          (value) => {
+            if (value > 0) keyframe.tempo = value / 100;
+          }
+        )
+      );
+
+      const removeCell = document.createElement("td");
+      const removeBtn = document.createElement("button");
+      removeBtn.type = "button";
+      removeBtn.className = "btn-small";
+      removeBtn.textContent = "Remove";
+      removeBtn.addEventListener("click", () => this.handleRemove(keyframe));
+      removeCell.appendChild(removeBtn);
+      row.appendChild(removeCell);
+
+      this.rows.appendChild(row);
+    }
+  }
+
+  private createCell(
+    value: string,
+    step: string,
+    onInput: (value: number) => void
+  ): HTMLTableCellElement {
+    const cell = document.createElement("td");
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = step;
+    input.value = value;
+    input.addEventListener("change", () => {
+      const parsed = parseFloat(input.value);
+      if (isFinite(parsed)) {
+        onInput(parsed);
+        this.onChange?.();
+      }
+    });
+    cell.appendChild(input);
+    return cell;
+  }
+}
@@ -0,0 +1,87 @@
+// Drags shorter than this are treated as clicks and leave the loop alone
+const MIN_LOOP_SECONDS = 0.05;
+
+/**
+ * A bar spanning the whole input where dragging marks the loop, which is
+ * shown as a highlighted range along with the loop's playback position.
+ */
+export class LoopTimeline {
+  private timeline: HTMLElement;
+  private range: HTMLElement;
+  private playhead: HTMLElement;
+
+  private duration = 0;
+  private dragFrom: number | null = null;
+  private onChange: ((start: number, end: number) => void) | null = null;
+
+  constructor() {
+    this.timeline = document.getElementById("loopTimeline")!;
+    this.range = document.getElementById("loopRange")!;
+    this.playhead = document.getElementById("loopPlayhead")!;
+  }
+
+  init(onChange: (start: number, end: number) => void) {
+    this.onChange = onChange;
+
+    this.timeline.addEventListener("pointerdown", (e) => {
+      if (this.duration <= 0) return;
+      this.dragFrom = this.timeAt(e);
+      this.timeline.setPointerCapture(e.pointerId);
+    });
+    this.timeline.addEventListener("pointermove", (e) => {
+      if (this.dragFrom === null) return;
+      const [start, end] = this.dragRange(e);
+      this.setLoop(start, end);
+    });
+    this.timeline.addEventListener("pointerup", (e) => {
+      if (this.dragFrom === null) return;
+      const [start, end] = this.dragRange(e);
+      this.dragFrom = null;
+      if (end - start >= MIN_LOOP_SECONDS) {
+        this.onChange?.(start, end);
+      }
+    });
+  }
+
+  setDuration(duration: number) {
+    this.duration = duration;
+    this.setLoop(null, null);
+    this.setPosition(null);
+  }
+
+  setLoop(start: number | null, end: number | null) {
+    if (start === null || end === null || this.duration <= 0) {
+      this.range.style.display = "none";
+      return;
+    }
+
+    this.range.style.display = "block";
+    this.range.style.left = `${this.percent(start)}%`;
+    this.range.style.width = `${this.percent(end) - this.percent(start)}%`;
+  }
+
+  setPosition(time: number | null) {
+    if (time === null || this.duration <= 0) {
+      this.playhead.style.display = "none";
+      return;
+    }
+
+    this.playhead.style.display = "block";
+    this.playhead.style.left = `${this.percent(time)}%`;
+  }
+
+  private dragRange(e: PointerEvent): [number, number] {
+    const time = this.timeAt(e);
+    return [Math.min(this.dragFrom!, time), Math.max(this.dragFrom!, time)];
+  }
+
+  private timeAt(e: PointerEvent): number {
+    const rect = this.timeline.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    return Math.max(0, Math.min(1, fraction)) * this.duration;
+  }
+
+  private percent(time: number): number {
+    return (Math.max(0, Math.min(this.duration, time)) / this.duration) * 100;
+  }
+}
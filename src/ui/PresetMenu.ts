@@ -0,0 +1,210 @@
+import {
+  BUILT_IN_PRESETS,
+  Preset,
+  PresetSettings,
+  loadUserPresets,
+  parsePresets,
+  saveUserPresets,
+  serializePresets,
+} from "./Presets";
+
+const BUILT_IN_PREFIX = "builtin:";
+const USER_PREFIX = "user:";
+
+/**
+ * The preset picker. Built-in presets come first, then the user's own, which
+ * are kept in localStorage and can be saved from the current settings,
+ * deleted, and moved between browsers as a JSON file.
+ */
+export class PresetMenu {
+  private select: HTMLSelectElement;
+  private saveBtn: HTMLButtonElement;
+  private deleteBtn: HTMLButtonElement;
+  private importBtn: HTMLButtonElement;
+  private exportBtn: HTMLButtonElement;
+  private fileInput: HTMLInputElement;
+
+  private userPresets: Preset[] = [];
+  private getSettings: (() => PresetSettings) | null = null;
+  private onApply: ((settings: PresetSettings) => void) | null = null;
+  private onDownload: ((blob: Blob, filename: string) => void) | null = null;
+  private onMessage:
+    | ((message: string, type: "success" | "error") => void)
+    | null = null;
+
+  constructor() {
+    this.select = document.getElementById("presetSelect") as HTMLSelectElement;
+    this.saveBtn = document.getElementById(
+      "savePresetBtn"
+    ) as HTMLButtonElement;
+    this.deleteBtn = document.getElementById(
+      "deletePresetBtn"
+    ) as HTMLButtonElement;
+    this.importBtn = document.getElementById(
+      "importPresetsBtn"
+    ) as HTMLButtonElement;
+    this.exportBtn = document.getElementById(
+      "exportPresetsBtn"
+    ) as HTMLButtonElement;
+    this.fileInput = document.getElementById(
+      "presetFileInput"
+    ) as HTMLInputElement;
+  }
+
+  init(
+    getSettings: () => PresetSettings,
+    onApply: (settings: PresetSettings) => void,
+    onDownload: (blob: Blob, filename: string) => void,
+    onMessage: (message: string, type: "success" | "error") => void
+  ) {
+    this.getSettings = getSettings;
+    this.onApply = onApply;
+    this.onDownload = onDownload;
+    this.onMessage = onMessage;
+
+    this.select.addEventListener("change", this.handleSelect.bind(this));
+    this.saveBtn.addEventListener("click", this.handleSave.bind(this));
+    this.deleteBtn.addEventListener("click", this.handleDelete.bind(this));
+    this.importBtn.addEventListener("click", () => this.fileInput.click());
+    this.fileInput.addEventListener("change", this.handleImport.bind(this));
+    this.exportBtn.addEventListener("click", this.handleExport.bind(this));
+
+    this.userPresets = loadUserPresets();
+    this.render();
+  }
+
+  private selectedPreset(): Preset | undefined {
+    const value = this.select.value;
+    if (value.startsWith(BUILT_IN_PREFIX)) {
+      return BUILT_IN_PRESETS[
+        parseInt(value.slice(BUILT_IN_PREFIX.length), 10)
+      ];
+    }
+    if (value.startsWith(USER_PREFIX)) {
+      const name = value.slice(USER_PREFIX.length);
+      return this.userPresets.find((preset) => preset.name === name);
+    }
+    return undefined;
+  }
+
+  private handleSelect() {
+    const preset = this.selectedPreset();
+    this.deleteBtn.disabled = !this.select.value.startsWith(USER_PREFIX);
+    if (preset) {
+      this.onApply?.(preset.settings);
+    }
+  }
+
+  private handleSave() {
+    if (!this.getSettings) return;
+
+    const name = prompt("Name for this preset:")?.trim();
+    if (!name) return;
+
+    // Saving under an existing name replaces that preset
+    const preset: Preset = { name, settings: this.getSettings() };
+    const presets = this.userPresets.filter((p) => p.name !== name);
+    if (this.store([...presets, preset])) {
+      this.render(`${USER_PREFIX}${name}`);
+      this.onMessage?.(`Saved preset "${name}"`, "success");
+    }
+  }
+
+  private handleDelete() {
+    const preset = this.selectedPreset();
+    if (!preset || !this.select.value.startsWith(USER_PREFIX)) return;
+
+    if (this.store(this.userPresets.filter((p) => p !== preset))) {
+      this.render();
+      this.onMessage?.(`Deleted preset "${preset.name}"`, "success");
+    }
+  }
+
+  private async handleImport() {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = "";
+    if (!file) return;
+
+    let imported: Preset[];
+    try {
+      imported = parsePresets(await file.text());
+    } catch (error) {
+      this.onMessage?.(
+        `Error: Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+      return;
+    }
+
+    // Imported presets win over ones of the same name
+    const names = new Set(imported.map((preset) => preset.name));
+    const kept = this.userPresets.filter((preset) => !names.has(preset.name));
+    if (this.store([...kept, ...imported])) {
+      this.render();
+      this.onMessage?.(`Imported ${imported.length} preset(s)`, "success");
+    }
+  }
+
+  private handleExport() {
+    const blob = new Blob([serializePresets(this.userPresets)], {
+      type: "application/json",
+    });
+    this.onDownload?.(blob, "transposer-presets.json");
+  }
+
+  private store(presets: Preset[]): boolean {
+    try {
+      saveUserPresets(presets);
+    } catch (error) {
+      this.onMessage?.(
+        `Error: Could not save presets: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+      return false;
+    }
+    this.userPresets = presets;
+    return true;
+  }
+
+  private render(selected = "") {
+    this.select.innerHTML = "";
+
+    const placeholder = document.createElement("option");
+    placeholder.value = "";
+    placeholder.textContent = "Choose a preset…";
+    this.select.appendChild(placeholder);
+
+    this.addGroup(
+      "Built-in",
+      BUILT_IN_PRESETS.map((preset, index) => [
+        `${BUILT_IN_PREFIX}${index}`,
+        preset.name,
+      ])
+    );
+    this.addGroup(
+      "My presets",
+      this.userPresets.map((preset) => [
+        `${USER_PREFIX}${preset.name}`,
+        preset.name,
+      ])
+    );
+
+    this.select.value = selected;
+    this.deleteBtn.disabled = !selected.startsWith(USER_PREFIX);
+    this.exportBtn.disabled = this.userPresets.length === 0;
+  }
+
+  private addGroup(label: string, options: [string, string][]) {
+    if (options.length === 0) return;
+
+    const group = document.createElement("optgroup");
+    group.label = label;
+    for (const [value, text] of options) {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = text;
+      group.appendChild(option);
+    }
+    this.select.appendChild(group);
+  }
+}
@@ -0,0 +1,79 @@
+import { SessionSettings, validateSessionSettings } from "./Project";
+
+// What a preset can set; anything left out stays as it is
+export type PresetSettings = Partial<
+  Pick<SessionSettings, "semitones" | "cents" | "tempo" | "export">
+>;
+
+export interface Preset {
+  name: string;
+  settings: PresetSettings;
+}
+
+const PRESETS_VERSION = 1;
+const STORAGE_KEY = "audio-transposer.presets";
+
+/**
+ * Transpositions musicians reach for all the time. Instrument presets shift
+ * concert pitch into the instrument's written key; the guitar presets match
+ * a recording to a tuned-down guitar or let a song recorded with a capo be
+ * played in open position.
+ */
+export const BUILT_IN_PRESETS: Preset[] = [
+  { name: "B♭ clarinet / trumpet (-2)", settings: { semitones: -2, cents: 0 } },
+  { name: "E♭ alto sax (-9)", settings: { semitones: -9, cents: 0 } },
+  { name: "F horn (-7)", settings: { semitones: -7, cents: 0 } },
+  { name: "Half-step down (-1)", settings: { semitones: -1, cents: 0 } },
+  { name: "Whole-step down (-2)", settings: { semitones: -2, cents: 0 } },
+  { name: "Capo 2, play open (-2)", settings: { semitones: -2, cents: 0 } },
+  { name: "Capo 3, play open (-3)", settings: { semitones: -3, cents: 0 } },
+  { name: "Capo 5, play open (-5)", settings: { semitones: -5, cents: 0 } },
+];
+
+/**
+ * Reads presets exported as JSON. Every preset is checked before any is
+ * returned, so a bad file doesn't half import.
+ */
+export function parsePresets(text: string): Preset[] {
+  let data: { version?: number; presets?: Preset[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a presets file");
+  }
+
+  if (!Array.isArray(data?.presets)) {
+    throw new Error("Not a presets file");
+  }
+  if (data.version !== PRESETS_VERSION) {
+    throw new Error(`Unsupported presets version: ${data.version}`);
+  }
+
+  return data.presets.map((preset) => {
+    if (typeof preset?.name !== "string" || preset.name.trim() === "") {
+      throw new Error("Preset is missing its name");
+    }
+    validateSessionSettings(preset.settings);
+    return { name: preset.name.trim(), settings: preset.settings };
+  });
+}
+
+export function serializePresets(presets: Preset[]): string {
+  return JSON.stringify({ version: PRESETS_VERSION, presets }, null, 2);
+}
+
+// Storage can be unavailable (private windows, some file:// pages); there
+// are simply no user presets then
+export function loadUserPresets(): Preset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresets(stored) : [];
+  } catch (error) {
+    console.warn("Could not load presets:", error);
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+}
@@ -0,0 +1,222 @@
+import {
+  DEFAULT_STRETCH_OPTIONS,
+  STRETCH_OPTION_VALUES,
+  StretchOptions,
+} from "../audio/StretchOptions";
+import { TimeRegion } from "../audio/PitchShifter";
+import { CHANNEL_MODES, ChannelMode } from "../audio/ChannelMode";
+import { VOCAL_REDUCTIONS, VocalReduction } from "../audio/VocalReduction";
+import { Automation, validateKeyframes } from "../audio/Automation";
+import { EXPORT_FORMATS, ExportFormat } from "../audio/AudioExporter";
+import {
+  DITHER_MODES,
+  WAV_BIT_DEPTHS,
+  WavOptions,
+  resolveWavOptions,
+} from "../audio/WavEncoder";
+
+// Bumped only for changes older readers can't make sense of
+export const PROJECT_VERSION = 1;
+
+const PROJECT_EXTENSION = ".transposer.json";
+
+export interface ProjectSource {
+  name: string;
+  hash: string; // SHA-256 of the file's bytes, hex encoded
+}
+
+// Everything needed to bring the controls back to where they were
+export interface SessionSettings {
+  semitones: number; // pitch slider
+  cents: number; // fine tuning slider
+  tempo: number; // ratio, 1.0 = original speed
+  referencePitch: number | null; // retune target in Hz, null when off
+  stretch: StretchOptions;
+  channelMode: ChannelMode;
+  vocalReduction: VocalReduction;
+  region?: TimeRegion;
+  automation?: Automation;
+  loop?: TimeRegion;
+  export: {
+    format: ExportFormat;
+    wav: WavOptions;
+    loudnessTarget: number | null;
+  };
+}
+
+export interface Project {
+  version: number;
+  source: ProjectSource;
+  settings: SessionSettings;
+}
+
+// Takes the bytes already read for decoding rather than reading them again
+export async function hashData(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+export function createProject(
+  source: ProjectSource,
+  settings: SessionSettings
+): Project {
+  return { version: PROJECT_VERSION, source, settings };
+}
+
+export function projectFilename(sourceName: string): string {
+  const lastDot = sourceName.lastIndexOf(".");
+  const baseName = lastDot > 0 ? sourceName.substring(0, lastDot) : sourceName;
+  return `${baseName}${PROJECT_EXTENSION}`;
+}
+
+function isRegion(value: unknown): value is TimeRegion {
+  const region = value as TimeRegion;
+  return (
+    typeof region === "object" &&
+    region !== null &&
+    isFinite(region.start) &&
+    isFinite(region.end) &&
+    region.start >= 0 &&
+    region.end > region.start
+  );
+}
+
+// Checks the settings that are present; presets and links carry only some
+export function validateSessionSettings(settings: Partial<SessionSettings>) {
+  if (typeof settings !== "object" || settings === null) {
+    throw new Error("Invalid settings");
+  }
+  if (
+    settings.semitones !== undefined &&
+    !Number.isInteger(settings.semitones)
+  ) {
+    throw new Error(`Invalid semitones value: ${settings.semitones}`);
+  }
+  if (settings.cents !== undefined && !Number.isInteger(settings.cents)) {
+    throw new Error(`Invalid cents value: ${settings.cents}`);
+  }
+  if (
+    settings.tempo !== undefined &&
+    (!isFinite(settings.tempo) || settings.tempo <= 0)
+  ) {
+    throw new Error(`Invalid tempo value: ${settings.tempo}`);
+  }
+  if (
+    settings.referencePitch != null &&
+    !(isFinite(settings.referencePitch) && settings.referencePitch > 0)
+  ) {
+    throw new Error(`Invalid reference pitch: ${settings.referencePitch}`);
+  }
+  if (settings.region !== undefined && !isRegion(settings.region)) {
+    throw new Error("Invalid region");
+  }
+  if (settings.loop !== undefined && !isRegion(settings.loop)) {
+    throw new Error("Invalid loop");
+  }
+  if (settings.automation !== undefined) {
+    if (!Array.isArray(settings.automation?.keyframes)) {
+      throw new Error("Invalid automation");
+    }
+    validateKeyframes(settings.automation.keyframes);
+  }
+  if (
+    settings.export !== undefined &&
+    (typeof settings.export !== "object" || settings.export === null)
+  ) {
+    throw new Error("Invalid export settings");
+  }
+}
+
+// `value` if it's one of `allowed`, else `fallback`
+function knownValue<T>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+// Swap option values this version doesn't know, from a newer release or a
+// hand edit, for their defaults
+function withKnownOptions(settings: SessionSettings): SessionSettings {
+  const known = { ...settings };
+
+  if (typeof settings.stretch === "object" && settings.stretch !== null) {
+    const stretch: Record<string, unknown> = {};
+    for (const key of Object.keys(
+      STRETCH_OPTION_VALUES
+    ) as (keyof StretchOptions)[]) {
+      if (settings.stretch[key] === undefined) continue;
+      stretch[key] = knownValue<unknown>(
+        settings.stretch[key],
+        STRETCH_OPTION_VALUES[key],
+        DEFAULT_STRETCH_OPTIONS[key]
+      );
+    }
+    known.stretch = stretch as StretchOptions;
+  }
+  if (settings.channelMode !== undefined) {
+    known.channelMode = knownValue(settings.channelMode, CHANNEL_MODES, "all");
+  }
+  if (settings.vocalReduction !== undefined) {
+    known.vocalReduction = knownValue(
+      settings.vocalReduction,
+      VOCAL_REDUCTIONS,
+      "off"
+    );
+  }
+
+  const { format, wav } = settings.export;
+  const defaults = resolveWavOptions();
+  known.export = {
+    ...settings.export,
+    format: knownValue(format, EXPORT_FORMATS, "m4a"),
+  };
+  if (typeof wav === "object" && wav !== null) {
+    known.export.wav = {
+      ...wav,
+      bitDepth: knownValue(wav.bitDepth, WAV_BIT_DEPTHS, defaults.bitDepth),
+      dither: knownValue(wav.dither, DITHER_MODES, defaults.dither),
+    };
+  }
+
+  return known;
+}
+
+/**
+ * Reads a saved project, checking the parts the controls can't cope with
+ * being wrong. Option values the controls don't know fall back to their
+ * defaults.
+ */
+export function parseProject(text: string): Project {
+  let project: Project;
+  try {
+    project = JSON.parse(text);
+  } catch {
+    throw new Error("Not a project file");
+  }
+
+  if (typeof project !== "object" || project === null) {
+    throw new Error("Not a project file");
+  }
+  if (project.version !== PROJECT_VERSION) {
+    throw new Error(`Unsupported project version: ${project.version}`);
+  }
+
+  const { source, settings } = project;
+  if (
+    typeof source?.name !== "string" ||
+    typeof source?.hash !== "string" ||
+    typeof settings !== "object" ||
+    settings === null
+  ) {
+    throw new Error("Project is missing its audio file or settings");
+  }
+
+  for (const key of ["semitones", "cents", "tempo", "export"] as const) {
+    if (settings[key] === undefined) {
+      throw new Error(`Project is missing its ${key} setting`);
+    }
+  }
+  validateSessionSettings(settings);
+
+  return { ...project, settings: withKnownOptions(settings) };
+}
@@ -0,0 +1,123 @@
+import {
+  DEFAULT_STRETCH_OPTIONS,
+  StretchOptions,
+} from "../audio/StretchOptions";
+import { SessionSettings } from "./Project";
+
+// The settings a link carries; audio, regions and the like stay behind
+export type LinkSettings = Partial<
+  Pick<
+    SessionSettings,
+    | "semitones"
+    | "cents"
+    | "tempo"
+    | "referencePitch"
+    | "stretch"
+    | "channelMode"
+    | "vocalReduction"
+  >
+>;
+
+// Hash parameter for each stretch option
+const STRETCH_PARAMS: Record<keyof StretchOptions, string> = {
+  engine: "engine",
+  transients: "transients",
+  detector: "detector",
+  phase: "phase",
+  window: "window",
+  pitchMode: "pitchmode",
+  preserveFormants: "formants",
+};
+
+// Number() rather than parseFloat() so "3abc" is rejected, not read as 3
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+}
+
+/**
+ * Writes the settings as a URL hash such as "st=-3&tempo=92", leaving out
+ * anything at its default so links stay short. Tempo is a percentage, as
+ * on the slider.
+ */
+export function settingsToHash(settings: LinkSettings): string {
+  const params = new URLSearchParams();
+
+  if (settings.semitones) params.set("st", settings.semitones.toString());
+  if (settings.cents) params.set("cents", settings.cents.toString());
+  if (settings.tempo !== undefined && settings.tempo !== 1) {
+    params.set(
+      "tempo",
+      parseFloat((settings.tempo * 100).toFixed(1)).toString()
+    );
+  }
+  if (settings.referencePitch) {
+    params.set("ref", settings.referencePitch.toString());
+  }
+  if (settings.channelMode && settings.channelMode !== "all") {
+    params.set("channel", settings.channelMode);
+  }
+  if (settings.vocalReduction && settings.vocalReduction !== "off") {
+    params.set("vocals", settings.vocalReduction);
+  }
+
+  const stretch = settings.stretch ?? {};
+  for (const key of Object.keys(STRETCH_PARAMS) as (keyof StretchOptions)[]) {
+    const value = stretch[key];
+    if (value === undefined || value === DEFAULT_STRETCH_OPTIONS[key]) continue;
+    params.set(
+      STRETCH_PARAMS[key],
+      typeof value === "boolean" ? (value ? "1" : "0") : value
+    );
+  }
+
+  return params.toString();
+}
+
+/**
+ * Reads settings back from a URL hash. A link that's been mistyped or cut
+ * short shouldn't stop the page loading, so values that don't make sense
+ * are skipped; option names the controls don't know are ignored when the
+ * settings are applied.
+ */
+export function settingsFromHash(hash: string): LinkSettings {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const settings: LinkSettings = {};
+
+  const semitones = parseNumber(params.get("st"));
+  if (semitones !== null && Number.isInteger(semitones)) {
+    settings.semitones = semitones;
+  }
+  const cents = parseNumber(params.get("cents"));
+  if (cents !== null && Number.isInteger(cents)) {
+    settings.cents = cents;
+  }
+  const tempo = parseNumber(params.get("tempo"));
+  if (tempo !== null && tempo > 0) {
+    settings.tempo = tempo / 100;
+  }
+  const reference = parseNumber(params.get("ref"));
+  if (reference !== null && reference > 0) {
+    settings.referencePitch = reference;
+  }
+
+  const channel = params.get("channel");
+  if (channel) settings.channelMode = channel as LinkSettings["channelMode"];
+  const vocals = params.get("vocals");
+  if (vocals) {
+    settings.vocalReduction = vocals as LinkSettings["vocalReduction"];
+  }
+
+  const stretch: Record<string, string | boolean> = {};
+  for (const key of Object.keys(STRETCH_PARAMS) as (keyof StretchOptions)[]) {
+    const value = params.get(STRETCH_PARAMS[key]);
+    if (value === null) continue;
+    stretch[key] = key === "preserveFormants" ? value === "1" : value;
+  }
+  if (Object.keys(stretch).length > 0) {
+    settings.stretch = stretch as StretchOptions;
+  }
+
+  return settings;
+}
@@ -1,36 +1,227 @@
+import {
+  StretchDetector,
+  StretchEngine,
+  StretchOptions,
+  StretchPhase,
+  StretchPitchMode,
+  StretchTransients,
+  StretchWindow,
+  resolveStretchOptions,
+} from "../audio/StretchOptions";
+import { ShiftPitchOptions, TimeRegion } from "../audio/PitchShifter";
+import { LivePreview } from "../audio/LivePreview";
+import {
+  KeyEstimate,
+  keyName,
+  semitonesBetweenKeys,
+} from "../audio/KeyDetector";
+import { TempoEstimate } from "../audio/TempoDetector";
+import { ExportFormat, ExportSettings } from "../audio/AudioExporter";
+import { DitherMode, WavBitDepth, WavOptions } from "../audio/WavEncoder";
+import {
+  STANDARD_REFERENCE_HZ,
+  TuningEstimate,
+  centsBetweenReferences,
+} from "../audio/TuningDetector";
+import { ReferenceMatch } from "../audio/ReferenceMatch";
+import { ChannelMode } from "../audio/ChannelMode";
+import { VocalReduction } from "../audio/VocalReduction";
+import { LoudnessMeasurement } from "../audio/Loudness";
+import { LoopPlayer, extractPassage } from "../audio/LoopPlayer";
+import {
+  TimeMapSettings,
+  outputToSourceTime,
+  sourceToOutputTime,
+} from "../audio/TimeMap";
+import { KeyframeEditor } from "./KeyframeEditor";
+import { LoopTimeline } from "./LoopTimeline";
+import { BatchQueue, BatchSettings, BatchUpdate } from "./BatchQueue";
+import { PresetMenu } from "./PresetMenu";
+import { settingsFromHash, settingsToHash } from "./ShareLink";
+import {
+  Project,
+  ProjectSource,
+  SessionSettings,
+  createProject,
+  parseProject,
+  projectFilename,
+} from "./Project";
+
+// Whether finished renders are kept in IndexedDB between visits
+const PERSISTENT_CACHE_KEY = "audio-transposer.persistent-cache";
+
 export class UIController {
   private dropZone: HTMLElement;
   private fileInput: HTMLInputElement;
+  private openProjectBtn: HTMLButtonElement;
+  private saveProjectBtn: HTMLButtonElement;
+  private projectFileInput: HTMLInputElement;
+  private projectStatus: HTMLElement;
+  private copyLinkBtn: HTMLButtonElement;
+  private persistentCacheToggle: HTMLInputElement;
+  private clearCacheBtn: HTMLButtonElement;
   private controls: HTMLElement;
   private fineSlider: HTMLInputElement;
   private fineSliderValue: HTMLElement;
+  private referenceBtn: HTMLButtonElement;
+  private referenceFileInput: HTMLInputElement;
+  private referenceResult: HTMLElement;
+  private measuredTuning: HTMLElement;
+  private referencePitchSelect: HTMLSelectElement;
+  private customReferenceInput: HTMLInputElement;
+  private retuneCents: HTMLElement;
   private pitchSlider: HTMLInputElement;
   private sliderValue: HTMLElement;
   private tempoSlider: HTMLInputElement;
   private tempoSliderValue: HTMLElement;
+  private detectedBpm: HTMLElement;
+  private targetBpmInput: HTMLInputElement;
+  private detectedKey: HTMLElement;
+  private keyConfidence: HTMLElement;
+  private targetKeySelect: HTMLSelectElement;
+  private channelModeSelect: HTMLSelectElement;
+  private vocalReductionSelect: HTMLSelectElement;
+  private formantToggle: HTMLInputElement;
+  private engineSelect: HTMLSelectElement;
+  private transientsSelect: HTMLSelectElement;
+  private detectorSelect: HTMLSelectElement;
+  private phaseSelect: HTMLSelectElement;
+  private windowSelect: HTMLSelectElement;
+  private pitchModeSelect: HTMLSelectElement;
+  private regionStart: HTMLInputElement;
+  private regionEnd: HTMLInputElement;
+  private setRegionStartBtn: HTMLButtonElement;
+  private setRegionEndBtn: HTMLButtonElement;
+  private clearRegionBtn: HTMLButtonElement;
+  private keyframeEditor: KeyframeEditor;
+  private batchQueue: BatchQueue;
+  private presetMenu: PresetMenu;
+  private loopTimeline: LoopTimeline;
+  private loopStart: HTMLInputElement;
+  private loopEnd: HTMLInputElement;
+  private setLoopStartBtn: HTMLButtonElement;
+  private setLoopEndBtn: HTMLButtonElement;
+  private trainerToggle: HTMLInputElement;
+  private trainerStep: HTMLInputElement;
+  private trainerTarget: HTMLInputElement;
+  private loopPlayBtn: HTMLButtonElement;
+  private loopPass: HTMLElement;
+  private livePlayBtn: HTMLButtonElement;
+  private liveSeek: HTMLInputElement;
+  private liveTime: HTMLElement;
   private previewBtn: HTMLButtonElement;
   private exportBtn: HTMLButtonElement;
   private originalAudio: HTMLAudioElement;
   private processedAudio: HTMLAudioElement;
+  private loudnessReadout: HTMLElement;
+  private loudnessWarning: HTMLElement;
+  private normalizeToggle: HTMLInputElement;
+  private loudnessTargetInput: HTMLInputElement;
+  private exportFormatSelect: HTMLSelectElement;
+  private wavOptions: HTMLElement;
+  private bitDepthSelect: HTMLSelectElement;
+  private sampleRateSelect: HTMLSelectElement;
+  private ditherSelect: HTMLSelectElement;
   private status: HTMLElement;
   private progressBar: HTMLElement;
   private progressFill: HTMLElement;
+  private cancelBtn: HTMLButtonElement;
 
   private currentAudioBuffer: AudioBuffer | null = null;
   private processedAudioBuffer: AudioBuffer | null = null;
+  private livePreview: LivePreview | null = null;
+  private loopPlayer: LoopPlayer | null = null;
+  private keyEstimate: KeyEstimate | null = null;
+  private tempoEstimate: TempoEstimate | null = null;
+  private tuningEstimate: TuningEstimate | null = null;
+  private loudness: LoudnessMeasurement | null = null;
+  // Exact ratio; a typed target BPM needn't land on a whole percentage
+  private tempoRatio = 1.0;
+  private abortController: AbortController | null = null;
+  // Set while a batch export runs; single renders wait until it's done
+  private batchAbortController: AbortController | null = null;
   private originalFileName: string | null = null;
+  private source: ProjectSource | null = null;
+  // An opened project waiting for its audio file to be loaded
+  private pendingProject: Project | null = null;
   private onFileUpload: ((file: File) => void) | null = null;
+  private onPersistentCacheChange: ((persistent: boolean) => void) | null =
+    null;
+  private onClearCache: (() => Promise<void>) | null = null;
+  private onBatchExport:
+    | ((
+        files: File[],
+        settings: BatchSettings,
+        signal: AbortSignal,
+        onUpdate: (index: number, update: BatchUpdate) => void
+      ) => Promise<void>)
+    | null = null;
+  private onReferenceUpload: ((file: File) => void) | null = null;
   private onPitchShift:
-    | ((buffer: AudioBuffer, semitones: number, tempo: number) => void)
+    | ((
+        buffer: AudioBuffer,
+        semitones: number,
+        tempo: number,
+        options: ShiftPitchOptions
+      ) => Promise<void>)
+    | null = null;
+  private onExport:
+    | ((
+        buffer: AudioBuffer,
+        signal: AbortSignal,
+        settings: ExportSettings
+      ) => void)
+    | null = null;
+  private onRenderPassage:
+    | ((
+        buffer: AudioBuffer,
+        region: TimeRegion,
+        semitones: number,
+        tempo: number,
+        options: ShiftPitchOptions
+      ) => Promise<AudioBuffer>)
     | null = null;
-  private onExport: ((buffer: AudioBuffer) => void) | null = null;
 
   constructor() {
     this.dropZone = document.getElementById("dropZone")!;
     this.fileInput = document.getElementById("fileInput") as HTMLInputElement;
+    this.openProjectBtn = document.getElementById(
+      "openProjectBtn"
+    ) as HTMLButtonElement;
+    this.saveProjectBtn = document.getElementById(
+      "saveProjectBtn"
+    ) as HTMLButtonElement;
+    this.projectFileInput = document.getElementById(
+      "projectFileInput"
+    ) as HTMLInputElement;
+    this.projectStatus = document.getElementById("projectStatus")!;
+    this.copyLinkBtn = document.getElementById(
+      "copyLinkBtn"
+    ) as HTMLButtonElement;
+    this.persistentCacheToggle = document.getElementById(
+      "persistentCacheToggle"
+    ) as HTMLInputElement;
+    this.clearCacheBtn = document.getElementById(
+      "clearCacheBtn"
+    ) as HTMLButtonElement;
     this.controls = document.getElementById("controls")!;
     this.fineSlider = document.getElementById("fineSlider") as HTMLInputElement;
     this.fineSliderValue = document.getElementById("fineSliderValue")!;
+    this.referenceBtn = document.getElementById(
+      "referenceBtn"
+    ) as HTMLButtonElement;
+    this.referenceFileInput = document.getElementById(
+      "referenceFileInput"
+    ) as HTMLInputElement;
+    this.referenceResult = document.getElementById("referenceResult")!;
+    this.measuredTuning = document.getElementById("measuredTuning")!;
+    this.referencePitchSelect = document.getElementById(
+      "referencePitchSelect"
+    ) as HTMLSelectElement;
+    this.customReferenceInput = document.getElementById(
+      "customReferenceInput"
+    ) as HTMLInputElement;
+    this.retuneCents = document.getElementById("retuneCents")!;
     this.pitchSlider = document.getElementById(
       "pitchSlider"
     ) as HTMLInputElement;
@@ -39,6 +230,85 @@ export class UIController {
       "tempoSlider"
     ) as HTMLInputElement;
     this.tempoSliderValue = document.getElementById("tempoSliderValue")!;
+    this.detectedBpm = document.getElementById("detectedBpm")!;
+    this.targetBpmInput = document.getElementById(
+      "targetBpmInput"
+    ) as HTMLInputElement;
+    this.detectedKey = document.getElementById("detectedKey")!;
+    this.keyConfidence = document.getElementById("keyConfidence")!;
+    this.targetKeySelect = document.getElementById(
+      "targetKeySelect"
+    ) as HTMLSelectElement;
+    this.channelModeSelect = document.getElementById(
+      "channelModeSelect"
+    ) as HTMLSelectElement;
+    this.vocalReductionSelect = document.getElementById(
+      "vocalReductionSelect"
+    ) as HTMLSelectElement;
+    this.formantToggle = document.getElementById(
+      "formantToggle"
+    ) as HTMLInputElement;
+    this.engineSelect = document.getElementById(
+      "engineSelect"
+    ) as HTMLSelectElement;
+    this.transientsSelect = document.getElementById(
+      "transientsSelect"
+    ) as HTMLSelectElement;
+    this.detectorSelect = document.getElementById(
+      "detectorSelect"
+    ) as HTMLSelectElement;
+    this.phaseSelect = document.getElementById(
+      "phaseSelect"
+    ) as HTMLSelectElement;
+    this.windowSelect = document.getElementById(
+      "windowSelect"
+    ) as HTMLSelectElement;
+    this.pitchModeSelect = document.getElementById(
+      "pitchModeSelect"
+    ) as HTMLSelectElement;
+    this.regionStart = document.getElementById(
+      "regionStart"
+    ) as HTMLInputElement;
+    this.regionEnd = document.getElementById("regionEnd") as HTMLInputElement;
+    this.setRegionStartBtn = document.getElementById(
+      "setRegionStartBtn"
+    ) as HTMLButtonElement;
+    this.setRegionEndBtn = document.getElementById(
+      "setRegionEndBtn"
+    ) as HTMLButtonElement;
+    this.clearRegionBtn = document.getElementById(
+      "clearRegionBtn"
+    ) as HTMLButtonElement;
+    this.keyframeEditor = new KeyframeEditor();
+    this.batchQueue = new BatchQueue();
+    this.presetMenu = new PresetMenu();
+    this.loopTimeline = new LoopTimeline();
+    this.loopStart = document.getElementById("loopStart") as HTMLInputElement;
+    this.loopEnd = document.getElementById("loopEnd") as HTMLInputElement;
+    this.setLoopStartBtn = document.getElementById(
+      "setLoopStartBtn"
+    ) as HTMLButtonElement;
+    this.setLoopEndBtn = document.getElementById(
+      "setLoopEndBtn"
+    ) as HTMLButtonElement;
+    this.trainerToggle = document.getElementById(
+      "trainerToggle"
+    ) as HTMLInputElement;
+    this.trainerStep = document.getElementById(
+      "trainerStep"
+    ) as HTMLInputElement;
+    this.trainerTarget = document.getElementById(
+      "trainerTarget"
+    ) as HTMLInputElement;
+    this.loopPlayBtn = document.getElementById(
+      "loopPlayBtn"
+    ) as HTMLButtonElement;
+    this.loopPass = document.getElementById("loopPass")!;
+    this.livePlayBtn = document.getElementById(
+      "livePlayBtn"
+    ) as HTMLButtonElement;
+    this.liveSeek = document.getElementById("liveSeek") as HTMLInputElement;
+    this.liveTime = document.getElementById("liveTime")!;
     this.previewBtn = document.getElementById(
       "previewBtn"
     ) as HTMLButtonElement;
@@ -49,14 +319,37 @@ export class UIController {
     this.processedAudio = document.getElementById(
       "processedAudio"
     ) as HTMLAudioElement;
+    this.loudnessReadout = document.getElementById("loudnessReadout")!;
+    this.loudnessWarning = document.getElementById("loudnessWarning")!;
+    this.normalizeToggle = document.getElementById(
+      "normalizeToggle"
+    ) as HTMLInputElement;
+    this.loudnessTargetInput = document.getElementById(
+      "loudnessTargetInput"
+    ) as HTMLInputElement;
+    this.exportFormatSelect = document.getElementById(
+      "exportFormatSelect"
+    ) as HTMLSelectElement;
+    this.wavOptions = document.getElementById("wavOptions")!;
+    this.bitDepthSelect = document.getElementById(
+      "bitDepthSelect"
+    ) as HTMLSelectElement;
+    this.sampleRateSelect = document.getElementById(
+      "sampleRateSelect"
+    ) as HTMLSelectElement;
+    this.ditherSelect = document.getElementById(
+      "ditherSelect"
+    ) as HTMLSelectElement;
     this.status = document.getElementById("status")!;
     this.progressBar = document.getElementById("progressBar")!;
     this.progressFill = document.getElementById("progressFill")!;
+    this.cancelBtn = document.getElementById("cancelBtn") as HTMLButtonElement;
   }
 
   init(onFileUpload: (file: File) => void) {
     this.onFileUpload = onFileUpload;
     this.setupEventListeners();
+    this.applyLocationHash();
   }
 
   private setupEventListeners() {
@@ -79,27 +372,205 @@ export class UIController {
       this.handleFileInputChange.bind(this)
     );
 
+    // Project files
+    this.openProjectBtn.addEventListener("click", () =>
+      this.projectFileInput.click()
+    );
+    this.projectFileInput.addEventListener(
+      "change",
+      this.handleProjectFileChange.bind(this)
+    );
+    this.saveProjectBtn.addEventListener(
+      "click",
+      this.handleSaveProject.bind(this)
+    );
+
+    // Settings links
+    this.copyLinkBtn.addEventListener("click", this.handleCopyLink.bind(this));
+    window.addEventListener("hashchange", this.applyLocationHash.bind(this));
+
+    // Render cache; keeping renders on disk is opt-in
+    this.persistentCacheToggle.addEventListener(
+      "change",
+      this.handlePersistentCacheChange.bind(this)
+    );
+    this.clearCacheBtn.addEventListener(
+      "click",
+      this.handleClearCache.bind(this)
+    );
+
+    // Presets set pitch, fine tuning, tempo and export options in one go
+    this.presetMenu.init(
+      () => {
+        const {
+          semitones,
+          cents,
+          tempo,
+          export: exportSettings,
+        } = this.getSessionSettings();
+        return { semitones, cents, tempo, export: exportSettings };
+      },
+      this.applySessionSettings.bind(this),
+      this.saveFile.bind(this),
+      this.setStatus.bind(this)
+    );
+
     // Fine tuning slider
     this.fineSlider.addEventListener(
       "input",
       this.handleFineSliderChange.bind(this)
     );
 
+    // Reference track matching
+    this.referenceBtn.addEventListener("click", () =>
+      this.referenceFileInput.click()
+    );
+    this.referenceFileInput.addEventListener(
+      "change",
+      this.handleReferenceFileChange.bind(this)
+    );
+
+    // Reference pitch retuning
+    this.referencePitchSelect.addEventListener(
+      "change",
+      this.handleReferencePitchChange.bind(this)
+    );
+    this.customReferenceInput.addEventListener(
+      "change",
+      this.handleReferencePitchChange.bind(this)
+    );
+
     // Pitch slider
     this.pitchSlider.addEventListener(
       "input",
       this.handleSliderChange.bind(this)
     );
 
+    // Target key picker
+    this.targetKeySelect.addEventListener(
+      "change",
+      this.handleTargetKeyChange.bind(this)
+    );
+
     // Tempo slider
     this.tempoSlider.addEventListener(
       "input",
       this.handleTempoSliderChange.bind(this)
     );
+    this.targetBpmInput.addEventListener(
+      "change",
+      this.handleTargetBpmChange.bind(this)
+    );
+
+    [this.channelModeSelect, this.vocalReductionSelect].forEach((select) =>
+      select.addEventListener("change", this.resetProcessedAudio.bind(this))
+    );
+
+    // Formant toggle and quality options
+    [
+      this.formantToggle,
+      this.engineSelect,
+      this.transientsSelect,
+      this.detectorSelect,
+      this.phaseSelect,
+      this.windowSelect,
+      this.pitchModeSelect,
+    ].forEach((element) =>
+      element.addEventListener(
+        "change",
+        this.handleStretchOptionsChange.bind(this)
+      )
+    );
+
+    // Region controls
+    this.regionStart.addEventListener(
+      "change",
+      this.resetProcessedAudio.bind(this)
+    );
+    this.regionEnd.addEventListener(
+      "change",
+      this.resetProcessedAudio.bind(this)
+    );
+    this.setRegionStartBtn.addEventListener("click", () =>
+      this.setRegionFromPlayhead(this.regionStart)
+    );
+    this.setRegionEndBtn.addEventListener("click", () =>
+      this.setRegionFromPlayhead(this.regionEnd)
+    );
+    this.clearRegionBtn.addEventListener(
+      "click",
+      this.handleClearRegion.bind(this)
+    );
+
+    // Automation keyframes default to the playhead and current sliders
+    this.keyframeEditor.init(
+      () => ({
+        time: this.originalAudio.currentTime,
+        semitones: this.getTotalSemitones(),
+        tempo: this.tempoRatio,
+      }),
+      this.resetProcessedAudio.bind(this)
+    );
+
+    // Live preview
+    this.livePlayBtn.addEventListener("click", this.handleLivePlay.bind(this));
+    this.liveSeek.addEventListener("input", () =>
+      this.livePreview?.seek(parseFloat(this.liveSeek.value))
+    );
+    [this.originalAudio, this.processedAudio].forEach((audio) =>
+      audio.addEventListener("play", () => {
+        this.pauseLivePreview();
+        this.stopLoop();
+      })
+    );
+
+    // Loop practice; points are kept in input time so they stay put when
+    // a re-render changes where the passage falls in the processed audio
+    this.loopTimeline.init((start, end) => {
+      this.loopStart.value = start.toFixed(2);
+      this.loopEnd.value = end.toFixed(2);
+      this.handleLoopChange();
+    });
+    [this.loopStart, this.loopEnd].forEach((input) =>
+      input.addEventListener("change", this.handleLoopChange.bind(this))
+    );
+    this.setLoopStartBtn.addEventListener("click", () =>
+      this.setLoopFromPlayhead(this.loopStart)
+    );
+    this.setLoopEndBtn.addEventListener("click", () =>
+      this.setLoopFromPlayhead(this.loopEnd)
+    );
+    [this.trainerToggle, this.trainerStep, this.trainerTarget].forEach(
+      (input) => input.addEventListener("change", this.restartLoop.bind(this))
+    );
+    this.loopPlayBtn.addEventListener("click", this.handleLoopPlay.bind(this));
+
+    // Batch export
+    this.batchQueue.init(
+      this.handleBatchExport.bind(this),
+      this.saveFile.bind(this)
+    );
+
+    // Normalizing applies a limiter, so it also settles any clipping
+    this.normalizeToggle.addEventListener(
+      "change",
+      this.updateLoudnessWarning.bind(this)
+    );
+
+    // Export format
+    this.exportFormatSelect.addEventListener(
+      "change",
+      this.handleExportFormatChange.bind(this)
+    );
+    this.bitDepthSelect.addEventListener(
+      "change",
+      this.handleExportFormatChange.bind(this)
+    );
 
     // Buttons
     this.previewBtn.addEventListener("click", this.handlePreview.bind(this));
     this.exportBtn.addEventListener("click", this.handleExport.bind(this));
+    this.cancelBtn.addEventListener("click", this.handleCancel.bind(this));
   }
 
   private handleDragOver(e: DragEvent) {
@@ -121,7 +592,7 @@ export class UIController {
 
     const files = e.dataTransfer?.files;
     if (files && files.length > 0) {
-      this.processFile(files[0]);
+      this.handleFiles(Array.from(files));
     }
   }
 
@@ -129,12 +600,51 @@ export class UIController {
     const target = e.target as HTMLInputElement;
     const files = target.files;
     if (files && files.length > 0) {
+      this.handleFiles(Array.from(files));
+    }
+  }
+
+  // Several files at once go into the batch queue; the first is also
+  // opened for editing if nothing is loaded yet, so settings can be tried
+  private handleFiles(files: File[]) {
+    if (files.length === 1) {
       this.processFile(files[0]);
+      return;
+    }
+
+    const supported = files.filter((file) => this.isSupportedFile(file));
+    if (supported.length === 0) {
+      this.setStatus("Error: Please select MP3, WAV, or M4A files", "error");
+      return;
+    }
+
+    this.batchQueue.add(supported);
+    if (!this.currentAudioBuffer) {
+      this.processFile(supported[0]);
+    }
+    if (supported.length < files.length) {
+      this.setStatus(
+        `Skipped ${files.length - supported.length} unsupported file(s)`,
+        "error"
+      );
     }
   }
 
   private processFile(file: File) {
-    // Validate file type
+    if (!this.isSupportedFile(file)) {
+      this.setStatus("Error: Please select an MP3, WAV, or M4A file", "error");
+      return;
+    }
+
+    // Store the original filename
+    this.originalFileName = file.name;
+
+    if (this.onFileUpload) {
+      this.onFileUpload(file);
+    }
+  }
+
+  private isSupportedFile(file: File): boolean {
     const allowedTypes = [
       "audio/mpeg",
       "audio/mp3",
@@ -150,24 +660,303 @@ export class UIController {
       file.name.toLowerCase().endsWith(ext)
     );
 
-    if (!isValidType && !isValidExtension) {
-      this.setStatus("Error: Please select an MP3, WAV, or M4A file", "error");
+    return isValidType || isValidExtension;
+  }
+
+  private async handleProjectFileChange() {
+    const file = this.projectFileInput.files?.[0];
+    this.projectFileInput.value = "";
+    if (!file) return;
+
+    try {
+      this.pendingProject = parseProject(await file.text());
+    } catch (error) {
+      this.setStatus(
+        `Error: Could not open ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
       return;
     }
+    this.applyPendingProject();
+  }
+
+  private handleSaveProject() {
+    if (!this.source) return;
+
+    const project = createProject(this.source, this.getSessionSettings());
+    const blob = new Blob([JSON.stringify(project, null, 2)], {
+      type: "application/json",
+    });
+    this.saveFile(blob, projectFilename(this.source.name));
+    this.projectStatus.textContent = `Saved settings for ${this.source.name}`;
+  }
+
+  // The loaded audio, identified by content so a renamed copy still matches.
+  // Set once its controls are ready, which is when a waiting project applies.
+  setSource(source: ProjectSource) {
+    this.source = source;
+    this.saveProjectBtn.disabled = false;
+    if (this.pendingProject) {
+      this.applyPendingProject();
+    }
+  }
+
+  private applyPendingProject() {
+    const project = this.pendingProject!;
+    const expected = project.source.name;
 
-    // Check file size (max 50MB)
-    const maxSize = 50 * 1024 * 1024;
-    if (file.size > maxSize) {
-      this.setStatus("Error: File size must be less than 50MB", "error");
+    if (this.source?.hash !== project.source.hash) {
+      this.projectStatus.textContent = `Load ${expected} to apply this project`;
+      if (this.source) {
+        this.setStatus(
+          `Error: ${this.source.name} isn't the audio this project was saved with`,
+          "error"
+        );
+      }
       return;
     }
 
-    // Store the original filename
-    this.originalFileName = file.name;
+    this.pendingProject = null;
+    // Parts left out of the project are cleared rather than kept. JSON drops
+    // an undefined sample rate, which is how "Original" is saved.
+    const { settings } = project;
+    this.applySessionSettings({
+      region: undefined,
+      automation: undefined,
+      loop: undefined,
+      ...settings,
+      export: {
+        ...settings.export,
+        wav: { sampleRate: undefined, ...settings.export.wav },
+      },
+    });
+    this.projectStatus.textContent = `Applied project for ${expected}`;
+    this.setStatus("Project settings applied", "success");
+  }
 
-    if (this.onFileUpload) {
-      this.onFileUpload(file);
+  // Links like index.html#st=-3&tempo=92 pre-set the controls
+  private applyLocationHash() {
+    const settings = settingsFromHash(location.hash);
+    if (Object.keys(settings).length > 0) {
+      this.applySessionSettings(settings);
+    }
+  }
+
+  // Keep the address describing the current settings, replacing the history
+  // entry so moving a slider doesn't add to the back button
+  private updateLocationHash() {
+    const hash = settingsToHash(this.getSessionSettings());
+    history.replaceState(
+      null,
+      "",
+      hash ? `#${hash}` : location.pathname + location.search
+    );
+  }
+
+  private async handleCopyLink() {
+    this.updateLocationHash();
+    try {
+      await navigator.clipboard.writeText(location.href);
+      this.setStatus("Link to these settings copied", "success");
+    } catch {
+      // Clipboard access can be refused, so let the link be copied by hand
+      this.setStatus(`Copy this link: ${location.href}`);
+    }
+  }
+
+  private handlePersistentCacheChange() {
+    const persistent = this.persistentCacheToggle.checked;
+    try {
+      localStorage.setItem(PERSISTENT_CACHE_KEY, String(persistent));
+    } catch (error) {
+      console.warn("Could not save the cache setting:", error);
+    }
+    this.onPersistentCacheChange?.(persistent);
+  }
+
+  private async handleClearCache() {
+    if (!this.onClearCache) return;
+
+    this.clearCacheBtn.disabled = true;
+    try {
+      await this.onClearCache();
+      this.setStatus("Render cache cleared", "success");
+    } catch (error) {
+      this.setStatus(
+        `Could not clear the render cache: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        "error"
+      );
+    } finally {
+      this.clearCacheBtn.disabled = false;
+    }
+  }
+
+  getSessionSettings(): SessionSettings {
+    return {
+      semitones: parseInt(this.pitchSlider.value, 10),
+      cents: parseInt(this.fineSlider.value, 10),
+      tempo: this.tempoRatio,
+      referencePitch: this.getTargetReference(),
+      stretch: this.getStretchOptions(),
+      channelMode: this.channelModeSelect.value as ChannelMode,
+      vocalReduction: this.vocalReductionSelect.value as VocalReduction,
+      region: this.getRegion() ?? undefined,
+      automation: this.keyframeEditor.getAutomation(),
+      loop: this.getLoop() ?? undefined,
+      export: {
+        format: this.getExportFormat(),
+        wav: this.getWavOptions(),
+        loudnessTarget: this.getLoudnessTarget(),
+      },
+    };
+  }
+
+  /**
+   * Set the controls from saved settings. Only the settings present are
+   * touched; a region, automation, loop or WAV sample rate key that is there
+   * but undefined clears it, as does a null loudness target.
+   */
+  applySessionSettings(settings: Partial<SessionSettings>) {
+    if (settings.semitones !== undefined) {
+      this.pitchSlider.value = settings.semitones.toString();
+      this.sliderValue.textContent = this.pitchSlider.value;
+    }
+    if (settings.cents !== undefined) {
+      this.fineSlider.value = settings.cents.toString();
+      this.fineSliderValue.textContent = this.fineSlider.value;
+    }
+    if (settings.tempo !== undefined) {
+      const min = parseInt(this.tempoSlider.min, 10) / 100;
+      const max = parseInt(this.tempoSlider.max, 10) / 100;
+      this.tempoRatio = Math.max(min, Math.min(max, settings.tempo));
+      this.tempoSlider.value = Math.round(this.tempoRatio * 100).toString();
+      this.tempoSliderValue.textContent = parseFloat(
+        (this.tempoRatio * 100).toFixed(1)
+      ).toString();
+    }
+    if (settings.referencePitch !== undefined) {
+      const hz = settings.referencePitch;
+      if (hz === null) {
+        this.referencePitchSelect.value = "";
+      } else if (!this.selectOption(this.referencePitchSelect, hz.toString())) {
+        this.referencePitchSelect.value = "custom";
+        this.customReferenceInput.value = hz.toString();
+      }
+      this.customReferenceInput.hidden =
+        this.referencePitchSelect.value !== "custom";
+    }
+    if (settings.stretch) {
+      const stretch = resolveStretchOptions(settings.stretch);
+      this.selectOption(this.engineSelect, stretch.engine);
+      this.selectOption(this.transientsSelect, stretch.transients);
+      this.selectOption(this.detectorSelect, stretch.detector);
+      this.selectOption(this.phaseSelect, stretch.phase);
+      this.selectOption(this.windowSelect, stretch.window);
+      this.selectOption(this.pitchModeSelect, stretch.pitchMode);
+      this.formantToggle.checked = stretch.preserveFormants;
     }
+    if (settings.channelMode) {
+      this.selectOption(this.channelModeSelect, settings.channelMode);
+    }
+    if (settings.vocalReduction && !this.vocalReductionSelect.disabled) {
+      this.selectOption(this.vocalReductionSelect, settings.vocalReduction);
+    }
+    if ("region" in settings) {
+      this.regionStart.value = settings.region?.start.toFixed(2) ?? "";
+      this.regionEnd.value = settings.region?.end.toFixed(2) ?? "";
+    }
+    if ("automation" in settings) {
+      this.keyframeEditor.setAutomation(settings.automation);
+    }
+    if ("loop" in settings) {
+      this.loopStart.value = settings.loop?.start.toFixed(2) ?? "";
+      this.loopEnd.value = settings.loop?.end.toFixed(2) ?? "";
+      this.handleLoopChange();
+    }
+    if (settings.export) {
+      const { format, wav, loudnessTarget } = settings.export;
+      this.selectOption(this.exportFormatSelect, format);
+      if (wav?.bitDepth !== undefined) {
+        this.selectOption(this.bitDepthSelect, wav.bitDepth.toString());
+      }
+      if (wav && "sampleRate" in wav) {
+        this.selectOption(
+          this.sampleRateSelect,
+          wav.sampleRate !== undefined ? wav.sampleRate.toString() : ""
+        );
+      }
+      if (wav?.dither !== undefined) {
+        this.selectOption(this.ditherSelect, wav.dither);
+      }
+      if (loudnessTarget !== undefined) {
+        this.normalizeToggle.checked = loudnessTarget !== null;
+        if (loudnessTarget !== null) {
+          this.loudnessTargetInput.value = loudnessTarget.toString();
+        }
+      }
+    }
+
+    this.updateTargetKey();
+    this.updateRetuneCents();
+    this.updateTargetBpm();
+    this.handleExportFormatChange();
+    this.resetProcessedAudio();
+    this.livePreview?.setStretchOptions(this.getStretchOptions());
+    this.updateLiveParams();
+  }
+
+  // Returns false, leaving the select alone, when there is no such option
+  private selectOption(select: HTMLSelectElement, value: string): boolean {
+    const found = Array.from(select.options).some(
+      (option) => option.value === value
+    );
+    if (found) {
+      select.value = value;
+    }
+    return found;
+  }
+
+  private handleReferenceFileChange() {
+    const file = this.referenceFileInput.files?.[0];
+    this.referenceFileInput.value = "";
+    if (!file || !this.onReferenceUpload) return;
+
+    if (!this.isSupportedFile(file)) {
+      this.setStatus("Error: Please select an MP3, WAV, or M4A file", "error");
+      return;
+    }
+
+    this.referenceBtn.disabled = true;
+    this.referenceResult.textContent = `Analysing ${file.name}...`;
+    this.onReferenceUpload(file);
+  }
+
+  enableReferenceMatch(onReferenceUpload: (file: File) => void) {
+    this.onReferenceUpload = onReferenceUpload;
+    this.referenceBtn.disabled = false;
+  }
+
+  // Pre-fill pitch and fine tuning from a reference comparison
+  applyReferenceMatch(match: ReferenceMatch, description: string) {
+    this.referenceBtn.disabled = false;
+    this.referenceResult.textContent = description;
+
+    // The match already accounts for tuning, so retuning would double it
+    this.referencePitchSelect.value = "";
+    this.customReferenceInput.hidden = true;
+    this.updateRetuneCents();
+
+    this.pitchSlider.value = match.semitones.toString();
+    this.fineSlider.value = match.cents.toString();
+    this.fineSliderValue.textContent = match.cents.toString();
+    this.handleSliderChange();
+  }
+
+  referenceMatchFailed(message: string) {
+    this.referenceBtn.disabled = false;
+    this.referenceResult.textContent = message;
   }
 
   private handleFineSliderChange() {
@@ -175,41 +964,489 @@ export class UIController {
     this.fineSliderValue.textContent = value.toString();
 
     // Reset processed audio when slider changes
-    this.processedAudio.style.display = "none";
-    this.processedAudio.src = "";
-    this.exportBtn.disabled = true;
+    this.resetProcessedAudio();
+    this.updateLiveParams();
+  }
+
+  private handleReferencePitchChange() {
+    this.customReferenceInput.hidden =
+      this.referencePitchSelect.value !== "custom";
+    this.updateRetuneCents();
+
+    this.resetProcessedAudio();
+    this.updateLiveParams();
+  }
+
+  // Target reference in Hz, or null when retuning is off
+  private getTargetReference(): number | null {
+    const value = this.referencePitchSelect.value;
+    if (!value) return null;
+
+    const hz = parseFloat(
+      value === "custom" ? this.customReferenceInput.value : value
+    );
+    return isFinite(hz) && hz > 0 ? hz : null;
+  }
+
+  // Exact shift from the measured tuning to the target reference
+  private getRetuneCents(): number {
+    const target = this.getTargetReference();
+    if (target === null) return 0;
+
+    const measured = this.tuningEstimate?.referenceHz ?? STANDARD_REFERENCE_HZ;
+    return centsBetweenReferences(measured, target);
+  }
+
+  // Pitch slider, fine tuning and reference retuning combined
+  private getTotalSemitones(): number {
+    return (
+      parseInt(this.pitchSlider.value, 10) +
+      parseInt(this.fineSlider.value, 10) / 100 +
+      this.getRetuneCents() / 100
+    );
+  }
+
+  private updateRetuneCents() {
+    const cents = this.getRetuneCents();
+    this.retuneCents.textContent =
+      this.getTargetReference() === null
+        ? ""
+        : `${cents >= 0 ? "+" : ""}${cents.toFixed(1)} cents`;
+  }
+
+  setMeasuredTuning(tuning: TuningEstimate | null) {
+    this.tuningEstimate = tuning;
+    this.measuredTuning.textContent = tuning
+      ? `${tuning.cents >= 0 ? "+" : ""}${tuning.cents.toFixed(1)} cents (A = ${tuning.referenceHz.toFixed(1)} Hz)`
+      : "—";
+    this.updateRetuneCents();
   }
 
   private handleSliderChange() {
     const value = parseInt(this.pitchSlider.value, 10);
     this.sliderValue.textContent = value.toString();
+    this.updateTargetKey();
 
     // Reset processed audio when slider changes
-    this.processedAudio.style.display = "none";
-    this.processedAudio.src = "";
-    this.exportBtn.disabled = true;
+    this.resetProcessedAudio();
+    this.updateLiveParams();
+  }
+
+  // Move the pitch slider by the smallest shift that lands on the chosen key
+  private handleTargetKeyChange() {
+    if (!this.keyEstimate) return;
+
+    const target = parseInt(this.targetKeySelect.value, 10);
+    this.pitchSlider.value = semitonesBetweenKeys(
+      this.keyEstimate.tonic,
+      target
+    ).toString();
+    this.handleSliderChange();
+  }
+
+  // Keep the key picker showing the key the pitch slider currently lands on
+  private updateTargetKey() {
+    if (!this.keyEstimate) return;
+
+    const semitones = parseInt(this.pitchSlider.value, 10);
+    this.targetKeySelect.value = (
+      (((this.keyEstimate.tonic + semitones) % 12) + 12) %
+      12
+    ).toString();
+  }
+
+  setDetectedKey(key: KeyEstimate | null) {
+    this.keyEstimate = key;
+    this.targetKeySelect.innerHTML = "";
+
+    if (!key) {
+      this.detectedKey.textContent = "—";
+      this.keyConfidence.textContent = "";
+      this.targetKeySelect.disabled = true;
+      return;
+    }
+
+    this.detectedKey.textContent = key.name;
+    this.keyConfidence.textContent = `(${Math.round(key.confidence * 100)}% confidence)`;
+
+    for (let offset = 0; offset < 12; offset++) {
+      const tonic = (key.tonic + offset) % 12;
+      const shift = semitonesBetweenKeys(key.tonic, tonic);
+      const option = document.createElement("option");
+      option.value = tonic.toString();
+      option.textContent =
+        shift === 0
+          ? `${keyName(tonic, key.mode)} (original)`
+          : `${keyName(tonic, key.mode)} (${shift > 0 ? "+" : ""}${shift})`;
+      this.targetKeySelect.appendChild(option);
+    }
+
+    this.targetKeySelect.disabled = false;
+    this.updateTargetKey();
   }
 
   private handleTempoSliderChange() {
     const value = parseInt(this.tempoSlider.value, 10);
     this.tempoSliderValue.textContent = value.toString();
+    this.tempoRatio = value / 100;
+    this.updateTargetBpm();
 
     // Reset processed audio when slider changes
+    this.resetProcessedAudio();
+    this.updateLiveParams();
+  }
+
+  // Turn a typed BPM into a tempo ratio against the detected tempo
+  private handleTargetBpmChange() {
+    const target = parseFloat(this.targetBpmInput.value);
+    if (!this.tempoEstimate || !isFinite(target) || target <= 0) {
+      this.updateTargetBpm();
+      return;
+    }
+
+    const min = parseInt(this.tempoSlider.min, 10) / 100;
+    const max = parseInt(this.tempoSlider.max, 10) / 100;
+    this.tempoRatio = Math.max(
+      min,
+      Math.min(max, target / this.tempoEstimate.bpm)
+    );
+    this.tempoSlider.value = Math.round(this.tempoRatio * 100).toString();
+    this.tempoSliderValue.textContent = parseFloat(
+      (this.tempoRatio * 100).toFixed(1)
+    ).toString();
+    this.updateTargetBpm();
+
+    this.resetProcessedAudio();
+    this.updateLiveParams();
+  }
+
+  private updateTargetBpm() {
+    const bpm = this.getResultingBpm();
+    if (bpm !== null) {
+      this.targetBpmInput.value = bpm.toFixed(1);
+    }
+  }
+
+  // BPM after the tempo change, when there is a single well-defined one
+  private getResultingBpm(): number | null {
+    if (!this.tempoEstimate) return null;
+    if (this.keyframeEditor.getAutomation()) return null;
+
+    return this.tempoEstimate.bpm * this.tempoRatio;
+  }
+
+  setDetectedTempo(tempo: TempoEstimate | null) {
+    this.tempoEstimate = tempo;
+    this.targetBpmInput.disabled = !tempo;
+
+    if (!tempo) {
+      this.detectedBpm.textContent = "—";
+      this.targetBpmInput.value = "";
+      return;
+    }
+
+    this.detectedBpm.textContent = `${tempo.bpm.toFixed(1)} BPM`;
+    this.detectedBpm.title = `${Math.round(tempo.confidence * 100)}% confidence`;
+    this.updateTargetBpm();
+  }
+
+  // Every settings change comes through here, so it also updates the link
+  private resetProcessedAudio() {
+    this.stopLoop();
+    this.processedAudioBuffer = null;
     this.processedAudio.style.display = "none";
     this.processedAudio.src = "";
-    this.exportBtn.disabled = true;
+    this.setLoudness(null);
+    this.updateLocationHash();
+  }
+
+  private handleStretchOptionsChange() {
+    this.resetProcessedAudio();
+    this.livePreview?.setStretchOptions(this.getStretchOptions());
+  }
+
+  private updateLiveParams() {
+    if (!this.livePreview) return;
+
+    this.livePreview.setParams(this.getTotalSemitones(), this.tempoRatio);
+  }
+
+  private async handleLivePlay() {
+    if (!this.livePreview) return;
+
+    if (this.livePreview.isPlaying()) {
+      this.pauseLivePreview();
+      return;
+    }
+
+    this.originalAudio.pause();
+    this.processedAudio.pause();
+    this.stopLoop();
+    this.updateLiveParams();
+    // Live preview is optional; offline rendering still works without it
+    try {
+      await this.livePreview.play();
+    } catch (error) {
+      console.warn("Live preview unavailable:", error);
+      this.setStatus(
+        `Live preview unavailable: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        "error"
+      );
+      return;
+    }
+    this.livePlayBtn.textContent = "❚❚ Pause live";
+  }
+
+  private pauseLivePreview() {
+    if (!this.livePreview?.isPlaying()) return;
+
+    this.livePreview.pause();
+    this.livePlayBtn.textContent = "▶ Play live";
+  }
+
+  private updateLivePosition(time: number) {
+    const duration = this.livePreview?.getDuration() ?? 0;
+    this.liveSeek.value = time.toString();
+    this.liveTime.textContent = `${this.formatTime(time)} / ${this.formatTime(
+      duration
+    )}`;
+  }
+
+  private formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.floor(seconds % 60);
+    return `${minutes}:${remainder.toString().padStart(2, "0")}`;
+  }
+
+  private getStretchOptions(): StretchOptions {
+    return {
+      engine: this.engineSelect.value as StretchEngine,
+      transients: this.transientsSelect.value as StretchTransients,
+      detector: this.detectorSelect.value as StretchDetector,
+      phase: this.phaseSelect.value as StretchPhase,
+      window: this.windowSelect.value as StretchWindow,
+      pitchMode: this.pitchModeSelect.value as StretchPitchMode,
+      preserveFormants: this.formantToggle.checked,
+    };
+  }
+
+  private setRegionFromPlayhead(input: HTMLInputElement) {
+    input.value = this.originalAudio.currentTime.toFixed(2);
+    this.resetProcessedAudio();
+  }
+
+  private handleClearRegion() {
+    this.regionStart.value = "";
+    this.regionEnd.value = "";
+    this.resetProcessedAudio();
+  }
+
+  // Returns undefined when no region is set, null when the region is invalid
+  private getRegion(): TimeRegion | undefined | null {
+    if (this.regionStart.value === "" && this.regionEnd.value === "") {
+      return undefined;
+    }
+
+    const duration = this.currentAudioBuffer?.duration ?? 0;
+    const start =
+      this.regionStart.value === "" ? 0 : parseFloat(this.regionStart.value);
+    const end =
+      this.regionEnd.value === "" ? duration : parseFloat(this.regionEnd.value);
+
+    if (!isFinite(start) || !isFinite(end) || start < 0 || end <= start) {
+      return null;
+    }
+
+    return { start, end: Math.min(end, duration) };
+  }
+
+  // Settings of the current render, for finding loop points within it
+  private getTimeMapSettings(): TimeMapSettings {
+    return {
+      tempo: this.tempoRatio,
+      region: this.getRegion() ?? undefined,
+      automation: this.keyframeEditor.getAutomation(),
+    };
+  }
+
+  // Returns null unless both loop points are set and in order
+  private getLoop(): TimeRegion | null {
+    const duration = this.currentAudioBuffer?.duration ?? 0;
+    const start = parseFloat(this.loopStart.value);
+    const end = Math.min(parseFloat(this.loopEnd.value), duration);
+    if (!isFinite(start) || !isFinite(end) || start < 0 || end <= start) {
+      return null;
+    }
+    return { start, end };
+  }
+
+  // Loop points come from the processed player when there is one
+  private setLoopFromPlayhead(input: HTMLInputElement) {
+    const time = this.processedAudioBuffer
+      ? outputToSourceTime(
+          this.processedAudio.currentTime,
+          this.getTimeMapSettings()
+        )
+      : this.originalAudio.currentTime;
+    input.value = time.toFixed(2);
+    this.handleLoopChange();
+  }
+
+  private handleLoopChange() {
+    const loop = this.getLoop();
+    this.loopTimeline.setLoop(loop?.start ?? null, loop?.end ?? null);
+    this.restartLoop();
+  }
+
+  private restartLoop() {
+    if (this.loopPlayer?.isPlaying()) {
+      this.startLoop();
+    }
+  }
+
+  private handleLoopPlay() {
+    if (this.loopPlayer?.isPlaying()) {
+      this.stopLoop();
+    } else {
+      this.startLoop();
+    }
+  }
+
+  private stopLoop() {
+    this.loopPlayer?.stop();
+    this.loopPlayBtn.textContent = "▶ Play loop";
+    this.loopPass.textContent = "";
+    this.loopTimeline.setPosition(null);
+  }
+
+  // The trainer starts at the tempo slider and adds a step on every pass
+  private trainerTempo(pass: number): number {
+    const step = parseFloat(this.trainerStep.value) / 100;
+    const target = parseFloat(this.trainerTarget.value) / 100;
+    if (!isFinite(step) || !isFinite(target) || target <= this.tempoRatio) {
+      return this.tempoRatio;
+    }
+    return Math.min(target, this.tempoRatio + step * (pass - 1));
+  }
+
+  private async startLoop() {
+    const loopPlayer = this.loopPlayer;
+    const loop = this.getLoop();
+    if (!loopPlayer || !this.currentAudioBuffer) return;
+    if (!loop) {
+      this.setStatus("Error: Set loop A and B first", "error");
+      return;
+    }
+
+    this.originalAudio.pause();
+    this.processedAudio.pause();
+    this.pauseLivePreview();
+
+    // Automation already varies the tempo, so the trainer sits it out
+    const training =
+      this.trainerToggle.checked && !this.keyframeEditor.getAutomation();
+    let firstPass: AudioBuffer;
+    let nextPass: ((pass: number) => Promise<AudioBuffer>) | undefined;
+
+    if (training) {
+      const passes = new Map<number, Promise<AudioBuffer>>();
+      const renderPass = (pass: number) => {
+        const tempo = this.trainerTempo(pass);
+        // Once the target is reached every pass is the same
+        if (!passes.has(tempo)) {
+          passes.set(tempo, this.renderLoopPass(loop, tempo));
+        }
+        return passes.get(tempo)!;
+      };
+
+      this.setStatus("Preparing loop...", "processing");
+      try {
+        firstPass = await renderPass(1);
+      } catch (error) {
+        this.setStatus(
+          `Error: ${error instanceof Error ? error.message : String(error)}`,
+          "error"
+        );
+        return;
+      }
+      this.setStatus("Looping", "info");
+      nextPass = renderPass;
+    } else {
+      if (!this.processedAudioBuffer) {
+        await this.renderCurrentSettings();
+        if (!this.processedAudioBuffer) return;
+      }
+      const settings = this.getTimeMapSettings();
+      firstPass = extractPassage(
+        this.processedAudioBuffer,
+        sourceToOutputTime(loop.start, settings),
+        sourceToOutputTime(loop.end, settings)
+      );
+    }
+
+    loopPlayer.onPass = (pass) => {
+      this.loopPass.textContent = training
+        ? `Pass ${pass} · ${Math.round(this.trainerTempo(pass) * 100)}%`
+        : `Pass ${pass}`;
+    };
+    loopPlayer.onPosition = (fraction) => {
+      this.loopTimeline.setPosition(
+        loop.start + fraction * (loop.end - loop.start)
+      );
+    };
+    loopPlayer.onError = (message) => {
+      this.setStatus(`Loop error: ${message}`, "error");
+    };
+
+    this.loopPlayBtn.textContent = "■ Stop loop";
+    loopPlayer.play(firstPass, nextPass);
+  }
+
+  private async renderLoopPass(
+    loop: TimeRegion,
+    tempo: number
+  ): Promise<AudioBuffer> {
+    const rendered = await this.onRenderPassage!(
+      this.currentAudioBuffer!,
+      loop,
+      this.getTotalSemitones(),
+      tempo,
+      {
+        stretch: this.getStretchOptions(),
+        channelMode: this.channelModeSelect.value as ChannelMode,
+        vocalReduction: this.vocalReductionSelect.value as VocalReduction,
+      }
+    );
+    return extractPassage(rendered, 0, rendered.duration);
   }
 
   private handlePreview() {
+    this.renderCurrentSettings();
+  }
+
+  // Offline render of the current settings; resolves once it has finished
+  private async renderCurrentSettings() {
     if (!this.currentAudioBuffer || !this.onPitchShift) return;
+    if (this.batchAbortController) {
+      this.setStatus("Wait for the batch export to finish", "error");
+      return;
+    }
 
     const semitones = parseInt(this.pitchSlider.value, 10);
     const fineCents = parseInt(this.fineSlider.value, 10);
-    const tempo = parseInt(this.tempoSlider.value, 10) / 100; // Convert percentage to ratio
-    const totalSemitones = semitones + fineCents / 100;
+    const tempo = this.tempoRatio;
+    const totalSemitones = this.getTotalSemitones();
+    const stretchOptions = this.getStretchOptions();
+    const region = this.getRegion();
+    const automation = this.keyframeEditor.getAutomation();
 
     console.log(
-      `UI: Semitones: ${semitones}, Fine cents: ${fineCents}, Total: ${totalSemitones}, Tempo: ${tempo}`
+      `UI: Semitones: ${semitones}, Fine cents: ${fineCents}, Retune cents: ${this.getRetuneCents()}, Total: ${totalSemitones}, Tempo: ${tempo}`,
+      stretchOptions,
+      region,
+      automation
     );
 
     // Validate values
@@ -218,6 +1455,11 @@ export class UIController {
       return;
     }
 
+    if (region === null) {
+      this.setStatus("Error: Region end must be after region start", "error");
+      return;
+    }
+
     // Show loading indicators
     this.previewBtn.disabled = true;
     this.previewBtn.classList.add("loading");
@@ -225,11 +1467,30 @@ export class UIController {
     this.showProgress();
     this.setStatus("Processing audio... This may take a moment.", "processing");
 
-    this.onPitchShift(this.currentAudioBuffer, totalSemitones, tempo);
+    this.abortController = new AbortController();
+    await this.onPitchShift(this.currentAudioBuffer, totalSemitones, tempo, {
+      stretch: stretchOptions,
+      region,
+      automation,
+      channelMode: this.channelModeSelect.value as ChannelMode,
+      vocalReduction: this.vocalReductionSelect.value as VocalReduction,
+      signal: this.abortController.signal,
+    });
   }
 
-  private handleExport() {
-    if (!this.processedAudioBuffer || !this.onExport) return;
+  private async handleExport() {
+    if (!this.currentAudioBuffer || !this.onExport) return;
+    if (this.batchAbortController) {
+      this.setStatus("Wait for the batch export to finish", "error");
+      return;
+    }
+
+    // Live preview doesn't produce a buffer, so render before exporting
+    if (!this.processedAudioBuffer) {
+      this.exportBtn.disabled = true;
+      await this.renderCurrentSettings();
+      if (!this.processedAudioBuffer) return;
+    }
 
     // Show loading indicators
     this.exportBtn.disabled = true;
@@ -238,7 +1499,139 @@ export class UIController {
     this.showProgress();
     this.setStatus("Exporting audio file... Please wait.", "processing");
 
-    this.onExport(this.processedAudioBuffer);
+    this.abortController = new AbortController();
+    const bpm = this.getResultingBpm();
+    this.onExport(this.processedAudioBuffer, this.abortController.signal, {
+      format: this.getExportFormat(),
+      wav: this.getWavOptions(),
+      metadata: bpm !== null ? { bpm } : {},
+      loudnessTarget: this.getLoudnessTarget(),
+    });
+  }
+
+  private getExportFormat(): ExportFormat {
+    return this.exportFormatSelect.value as ExportFormat;
+  }
+
+  private getWavOptions(): WavOptions {
+    const sampleRate = parseInt(this.sampleRateSelect.value, 10);
+    return {
+      bitDepth: parseInt(this.bitDepthSelect.value, 10) as WavBitDepth,
+      sampleRate: isNaN(sampleRate) ? undefined : sampleRate,
+      dither: this.ditherSelect.value as DitherMode,
+    };
+  }
+
+  private getExportLabel(): string {
+    return `Export ${this.getExportFormat().toUpperCase()}`;
+  }
+
+  // WAV settings only apply to WAV, and dither only to integer depths
+  private handleExportFormatChange() {
+    this.wavOptions.hidden = this.getExportFormat() !== "wav";
+    this.ditherSelect.disabled = this.bitDepthSelect.value === "32";
+    if (!this.exportBtn.classList.contains("loading")) {
+      this.exportBtn.textContent = this.getExportLabel();
+    }
+  }
+
+  private getLoudnessTarget(): number | null {
+    if (!this.normalizeToggle.checked) return null;
+
+    const target = parseFloat(this.loudnessTargetInput.value);
+    return isFinite(target) ? target : null;
+  }
+
+  private async handleBatchExport() {
+    if (!this.onBatchExport) return;
+    // The progress bar and Cancel button belong to one job at a time
+    if (
+      this.previewBtn.classList.contains("loading") ||
+      this.exportBtn.classList.contains("loading")
+    ) {
+      this.setStatus("Wait for the current render to finish", "error");
+      return;
+    }
+
+    const files = this.batchQueue.getFiles();
+    // Retuning is measured per track, so batches use the sliders alone
+    const semitones =
+      parseInt(this.pitchSlider.value, 10) +
+      parseInt(this.fineSlider.value, 10) / 100;
+    const settings: BatchSettings = {
+      semitones,
+      tempo: this.tempoRatio,
+      options: {
+        stretch: this.getStretchOptions(),
+        channelMode: this.channelModeSelect.value as ChannelMode,
+        vocalReduction: this.vocalReductionSelect.value as VocalReduction,
+      },
+      export: {
+        format: this.getExportFormat(),
+        wav: this.getWavOptions(),
+        metadata: {},
+        loudnessTarget: this.getLoudnessTarget(),
+      },
+    };
+
+    this.batchQueue.setRunning(true);
+    this.previewBtn.disabled = true;
+    this.exportBtn.disabled = true;
+    this.showProgress();
+    this.setStatus(`Exporting ${files.length} files...`, "processing");
+    this.batchAbortController = new AbortController();
+    const signal = this.batchAbortController.signal;
+
+    let exported = 0;
+    await this.onBatchExport(files, settings, signal, (index, update) => {
+      if (update.result) {
+        exported++;
+        // What the batch was started with, whatever the controls say now
+        update.filename = this.generateExportFilename(
+          files[index].name,
+          settings.semitones,
+          null,
+          settings.tempo,
+          settings.export.format
+        );
+      }
+      if (update.status === "processing") {
+        this.updateProgress(
+          (100 * (index + (update.progress ?? 0) / 100)) / files.length
+        );
+      }
+      this.batchQueue.update(index, update);
+    });
+
+    this.batchQueue.setRunning(false);
+    this.batchAbortController = null;
+    this.previewBtn.disabled = !this.currentAudioBuffer;
+    this.exportBtn.disabled = !this.currentAudioBuffer || !this.onExport;
+    this.hideProgress();
+    if (signal.aborted) {
+      this.setStatus(
+        `Batch cancelled after ${exported} of ${files.length} files`
+      );
+    } else {
+      this.setStatus(
+        `Exported ${exported} of ${files.length} files`,
+        exported === files.length ? "success" : "error"
+      );
+    }
+  }
+
+  private handleCancel() {
+    if (this.batchAbortController) {
+      this.batchAbortController.abort();
+    } else if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    } else {
+      return;
+    }
+
+    this.cancelBtn.disabled = true;
+    this.setStatus("Cancelling...", "processing");
   }
 
   enableControls(
@@ -246,14 +1639,27 @@ export class UIController {
     onPitchShift: (
       buffer: AudioBuffer,
       semitones: number,
-      tempo: number
-    ) => void
+      tempo: number,
+      options: ShiftPitchOptions
+    ) => Promise<void>
   ) {
     this.currentAudioBuffer = audioBuffer;
+    this.regionStart.value = "";
+    this.regionEnd.value = "";
+    this.keyframeEditor.clear();
+    this.loopStart.value = "";
+    this.loopEnd.value = "";
+    this.loopTimeline.setDuration(audioBuffer.duration);
+    // Centre cancellation needs a left and right to compare
+    this.vocalReductionSelect.disabled = audioBuffer.numberOfChannels !== 2;
+    this.setDetectedKey(null);
+    this.setDetectedTempo(null);
+    this.setMeasuredTuning(null);
+    this.resetProcessedAudio();
     this.onPitchShift = onPitchShift;
 
     this.controls.classList.add("visible");
-    this.previewBtn.disabled = false;
+    this.previewBtn.disabled = this.batchAbortController !== null;
 
     // Create and display original audio
     this.createAudioFromBuffer(audioBuffer).then((audioUrl) => {
@@ -279,9 +1685,109 @@ export class UIController {
     });
   }
 
-  enableExport(onExport: (buffer: AudioBuffer) => void) {
+  setLoudness(loudness: LoudnessMeasurement | null) {
+    this.loudness = loudness;
+    if (!loudness) {
+      this.loudnessReadout.textContent = "—";
+    } else {
+      const lufs = isFinite(loudness.integratedLufs)
+        ? `${loudness.integratedLufs.toFixed(1)} LUFS`
+        : "below -70 LUFS";
+      const peak = isFinite(loudness.truePeakDb)
+        ? `${loudness.truePeakDb >= 0 ? "+" : ""}${loudness.truePeakDb.toFixed(1)} dBTP`
+        : "silent";
+      this.loudnessReadout.textContent = `${lufs}, true peak ${peak}`;
+    }
+    this.updateLoudnessWarning();
+  }
+
+  // Encoders clamp to full scale, so overs would be clipped unless the
+  // export is normalized (and therefore limited)
+  private updateLoudnessWarning() {
+    const clipping =
+      this.loudness !== null &&
+      this.loudness.clipping &&
+      !this.normalizeToggle.checked;
+    this.loudnessWarning.hidden = !clipping;
+    this.loudnessWarning.textContent = clipping
+      ? "⚠ Peaks above 0 dBFS will clip on export; enable normalization to limit them"
+      : "";
+  }
+
+  // Applies the stored setting straight away, so call this before rendering
+  enableRenderCache(
+    onPersistentChange: (persistent: boolean) => void,
+    onClear: () => Promise<void>
+  ) {
+    this.onPersistentCacheChange = onPersistentChange;
+    this.onClearCache = onClear;
+
+    let persistent = false;
+    try {
+      persistent = localStorage.getItem(PERSISTENT_CACHE_KEY) === "true";
+    } catch (error) {
+      console.warn("Could not load the cache setting:", error);
+    }
+    this.persistentCacheToggle.checked = persistent;
+    onPersistentChange(persistent);
+  }
+
+  enableBatchExport(
+    onBatchExport: (
+      files: File[],
+      settings: BatchSettings,
+      signal: AbortSignal,
+      onUpdate: (index: number, update: BatchUpdate) => void
+    ) => Promise<void>
+  ) {
+    this.onBatchExport = onBatchExport;
+  }
+
+  enableLoopPractice(
+    loopPlayer: LoopPlayer,
+    onRenderPassage: (
+      buffer: AudioBuffer,
+      region: TimeRegion,
+      semitones: number,
+      tempo: number,
+      options: ShiftPitchOptions
+    ) => Promise<AudioBuffer>
+  ) {
+    this.loopPlayer = loopPlayer;
+    this.onRenderPassage = onRenderPassage;
+    this.loopPlayBtn.disabled = false;
+  }
+
+  enableLivePreview(livePreview: LivePreview) {
+    this.livePreview = livePreview;
+    this.livePlayBtn.disabled = false;
+    this.livePlayBtn.textContent = "▶ Play live";
+    this.liveSeek.disabled = false;
+    this.liveSeek.max = livePreview.getDuration().toString();
+    this.updateLivePosition(0);
+    this.updateLiveParams();
+    livePreview.setStretchOptions(this.getStretchOptions());
+
+    livePreview.onPosition = this.updateLivePosition.bind(this);
+    livePreview.onEnded = () => {
+      this.livePlayBtn.textContent = "▶ Play live";
+      livePreview.seek(0);
+    };
+    livePreview.onError = (message) => {
+      this.livePlayBtn.textContent = "▶ Play live";
+      this.setStatus(`Live preview error: ${message}`, "error");
+    };
+  }
+
+  enableExport(
+    onExport: (
+      buffer: AudioBuffer,
+      signal: AbortSignal,
+      settings: ExportSettings
+    ) => void
+  ) {
     this.onExport = onExport;
-    this.exportBtn.disabled = false;
+    this.exportBtn.disabled = this.batchAbortController !== null;
   }
 
   setStatus(
@@ -292,23 +1798,23 @@ export class UIController {
     this.status.className = `status ${type}`;
   }
 
-  private generateExportFilename(): string {
-    if (!this.originalFileName) {
-      return "pitch-shifted-audio.m4a";
+  // Defaults describe the track being edited; batch files pass their own
+  private generateExportFilename(
+    fileName: string | null = this.originalFileName,
+    semitones: number = this.getTotalSemitones(),
+    bpm: number | null = this.getResultingBpm(),
+    tempo: number = this.tempoRatio,
+    format: ExportFormat = this.getExportFormat()
+  ): string {
+    if (!fileName) {
+      return `pitch-shifted-audio.${format}`;
     }
 
     // Extract base name and extension
-    const lastDot = this.originalFileName.lastIndexOf(".");
-    const baseName =
-      lastDot > 0
-        ? this.originalFileName.substring(0, lastDot)
-        : this.originalFileName;
+    const lastDot = fileName.lastIndexOf(".");
+    const baseName = lastDot > 0 ? fileName.substring(0, lastDot) : fileName;
 
-    // Get current pitch and tempo values
-    const semitones = parseInt(this.pitchSlider.value, 10);
-    const fineCents = parseInt(this.fineSlider.value, 10);
-    const tempo = parseInt(this.tempoSlider.value, 10);
-    const totalSemitones = semitones + fineCents / 100;
+    const totalSemitones = parseFloat(semitones.toFixed(2));
 
     // Generate suffix
     let suffix = "";
@@ -319,38 +1825,49 @@ export class UIController {
       parts.push(`${sign}${totalSemitones}st`);
     }
 
-    if (tempo !== 100) {
-      parts.push(`${tempo}bpm`);
+    // Name the real resulting BPM when it's known, else the percentage
+    if (tempo !== 1) {
+      parts.push(
+        bpm !== null
+          ? `${Math.round(bpm)}bpm`
+          : `${parseFloat((tempo * 100).toFixed(1))}pct`
+      );
     }
 
     if (parts.length > 0) {
       suffix = `_${parts.join("_")}`;
     }
 
-    return `${baseName}${suffix}.m4a`;
+    return `${baseName}${suffix}.${format}`;
   }
 
   downloadFile(blob: Blob, filename?: string) {
+    this.saveFile(blob, filename || this.generateExportFilename());
+
+    // Reset export button loading state
+    this.exportBtn.disabled = false;
+    this.exportBtn.classList.remove("loading");
+    this.exportBtn.textContent = this.getExportLabel();
+    this.hideProgress();
+    this.setStatus("Audio exported successfully", "success");
+  }
+
+  private saveFile(blob: Blob, filename: string) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = filename || this.generateExportFilename();
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-
-    // Reset export button loading state
-    this.exportBtn.disabled = false;
-    this.exportBtn.classList.remove("loading");
-    this.exportBtn.textContent = "Export M4A";
-    this.hideProgress();
-    this.setStatus("Audio exported successfully", "success");
   }
 
   private showProgress() {
     this.progressBar.classList.add("visible");
     this.progressFill.classList.add("indeterminate");
+    this.cancelBtn.classList.add("visible");
+    this.cancelBtn.disabled = false;
   }
 
   updateProgress(progress: number) {
@@ -362,6 +1879,7 @@ export class UIController {
     this.progressBar.classList.remove("visible");
     this.progressFill.classList.remove("indeterminate");
     this.progressFill.style.width = "0%";
+    this.cancelBtn.classList.remove("visible");
   }
 
   resetLoadingStates() {
@@ -373,7 +1891,7 @@ export class UIController {
     // Reset export button
     this.exportBtn.disabled = false;
     this.exportBtn.classList.remove("loading");
-    this.exportBtn.textContent = "Export M4A";
+    this.exportBtn.textContent = this.getExportLabel();
 
     // Hide progress
     this.hideProgress();
@@ -0,0 +1,76 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import { analyzePitch } from "./helpers/pitch-detection";
+
+test.describe("Automation", () => {
+  test("should follow the pitch and tempo keyframes", async ({ page }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await page.waitForFunction(
+      () =>
+        (document.querySelector("#originalAudio") as HTMLAudioElement)
+          .duration > 0,
+      { timeout: 10000 }
+    );
+    const originalDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#originalAudio") as HTMLAudioElement).duration
+    );
+
+    // Keyframes take the sliders' values at the playhead: as written from
+    // the start, then up to G at half speed from 0.7 s on
+    await page.locator("#automationPanel summary").click();
+    await page.locator("#interpolationSelect").selectOption("step");
+    await page.locator("#addKeyframeBtn").click();
+    await page.locator("#pitchSlider").fill("7");
+    await page.locator("#tempoSlider").fill("50");
+    await page.evaluate(() => {
+      (
+        document.querySelector("#originalAudio") as HTMLAudioElement
+      ).currentTime = 0.7;
+    });
+    await page.locator("#addKeyframeBtn").click();
+    await expect(page.locator("#keyframeRows tr")).toHaveCount(2);
+
+    await page.locator("#previewBtn").click();
+    await expect(page.locator("#status")).toHaveText(
+      "Audio processed successfully",
+      { timeout: 30000 }
+    );
+    await page.waitForFunction(
+      () =>
+        (document.querySelector("#processedAudio") as HTMLAudioElement)
+          .duration > 0,
+      { timeout: 10000 }
+    );
+    const processedDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#processedAudio") as HTMLAudioElement).duration
+    );
+
+    // 0.7 s at full speed, the rest at half speed
+    const expectedDuration = 0.7 + (originalDuration - 0.7) / 0.5;
+    expect(Math.abs(processedDuration - expectedDuration)).toBeLessThan(0.25);
+
+    const before = await analyzePitch(page, "#processedAudio", 0.15);
+    const after = await analyzePitch(page, "#processedAudio", 0.75);
+    expect(before.note).toBe("C");
+    expect(after.note).toBe("G");
+
+    expect(errors.length).toBe(0);
+  });
+});
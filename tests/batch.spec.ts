@@ -0,0 +1,130 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+
+test.describe("Batch Export", () => {
+  test("should export several files and bundle them as a ZIP", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    const audio = fs.readFileSync(audioPath);
+    await page.locator("#fileInput").setInputFiles([
+      { name: "first.mp3", mimeType: "audio/mpeg", buffer: audio },
+      { name: "second.mp3", mimeType: "audio/mpeg", buffer: audio },
+    ]);
+
+    // The first file opens for editing and both are queued
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await expect(page.locator("#batchRows tr")).toHaveCount(2);
+
+    await page.locator("#pitchSlider").fill("-2");
+    await page.locator("#exportFormatSelect").selectOption("wav");
+    await page.locator("#batchExportBtn").click();
+
+    await expect(page.locator("#batchRows .batch-status.done")).toHaveCount(2, {
+      timeout: 60000,
+    });
+    await expect(page.locator("#status")).toHaveText("Exported 2 of 2 files");
+
+    const downloadPromise = page.waitForEvent("download");
+    await page.locator("#batchZipBtn").click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toBe("transposed.zip");
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should name files by the settings the batch started with", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    const audio = fs.readFileSync(audioPath);
+    await page.locator("#fileInput").setInputFiles([
+      { name: "first.mp3", mimeType: "audio/mpeg", buffer: audio },
+      { name: "second.mp3", mimeType: "audio/mpeg", buffer: audio },
+    ]);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    await page.locator("#pitchSlider").fill("-2");
+    await page.locator("#tempoSlider").fill("80");
+    await page.locator("#exportFormatSelect").selectOption("wav");
+    await page.locator("#batchExportBtn").click();
+
+    // Changing the controls mid-batch doesn't change what it produces
+    await page.locator("#exportFormatSelect").selectOption("m4a");
+    await page.locator("#tempoSlider").fill("100");
+
+    await expect(page.locator("#batchRows .batch-status.done")).toHaveCount(2, {
+      timeout: 60000,
+    });
+
+    const downloadPromise = page.waitForEvent("download");
+    await page.locator("#batchRows tr").last().locator("button").click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toBe("second_-2st_80pct.wav");
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should keep single renders out of a running batch and cancel it", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    const audio = fs.readFileSync(audioPath);
+    await page.locator("#fileInput").setInputFiles(
+      Array.from({ length: 6 }, (_, index) => ({
+        name: `take-${index + 1}.mp3`,
+        mimeType: "audio/mpeg",
+        buffer: audio,
+      }))
+    );
+
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await page.locator("#pitchSlider").fill("-2");
+    await page.locator("#exportFormatSelect").selectOption("wav");
+    await page.locator("#batchExportBtn").click();
+
+    // Preview and Export would take over the batch's Cancel button
+    await expect(page.locator("#previewBtn")).toBeDisabled();
+    await expect(page.locator("#exportBtn")).toBeDisabled();
+
+    await page.locator("#cancelBtn").click();
+    await expect(page.locator("#status")).toContainText("Batch cancelled", {
+      timeout: 30000,
+    });
+    await expect(page.locator("#previewBtn")).toBeEnabled();
+    await expect(page.locator("#exportBtn")).toBeEnabled();
+  });
+});
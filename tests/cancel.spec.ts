@@ -0,0 +1,82 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import { analyzePitch } from "./helpers/pitch-detection";
+
+test.describe("Cancellation", () => {
+  test("should reject an aborted job and keep the worker usable", async ({
+    page,
+  }) => {
+    const distPath = path.resolve(__dirname, "../dist");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    // One worker, so the second job has to run where the first was stopped
+    await page.addInitScript(() => {
+      Object.defineProperty(navigator, "hardwareConcurrency", {
+        get: () => 1,
+      });
+    });
+
+    // Serve a bare page next to the library; module imports need http(s)
+    await page.route("http://transposer.test/**", (route) => {
+      const url = new URL(route.request().url());
+      if (/^\/transpose[\w-]*\.js$/.test(url.pathname)) {
+        return route.fulfill({
+          path: path.join(distPath, url.pathname),
+          contentType: "text/javascript",
+        });
+      }
+      if (url.pathname === "/middle-c.mp3") {
+        return route.fulfill({ path: audioPath, contentType: "audio/mpeg" });
+      }
+      return route.fulfill({
+        contentType: "text/html",
+        body: '<!DOCTYPE html><title>Library</title><audio id="result"></audio>',
+      });
+    });
+    await page.goto("http://transposer.test/");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    const abortedWith = await page.evaluate(async () => {
+      const { Transposer } = await import("/transpose.js" as string);
+      const transposer = new Transposer();
+      (window as any).transposer = transposer;
+      const input = await (await fetch("/middle-c.mp3")).arrayBuffer();
+
+      // Abort as soon as the worker reports it has started
+      const controller = new AbortController();
+      try {
+        await transposer.transpose(input, {
+          semitones: 7,
+          signal: controller.signal,
+          onProgress: ({ stage }: any) => {
+            if (stage === "processing") controller.abort();
+          },
+        });
+        return "resolved";
+      } catch (error: any) {
+        return error.name;
+      }
+    });
+    expect(abortedWith).toBe("AbortError");
+
+    // The same transposer takes the next job and gets it right
+    await page.evaluate(async () => {
+      const input = await (await fetch("/middle-c.mp3")).arrayBuffer();
+      const wav: Blob = await (window as any).transposer.transpose(input, {
+        semitones: 7,
+        output: "wav",
+      });
+      const audio = document.querySelector("#result") as HTMLAudioElement;
+      audio.src = URL.createObjectURL(wav);
+    });
+    expect((await analyzePitch(page, "#result")).note).toBe("G");
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadAudio, renderPreview } from "./helpers/preview";
+import { measureTones } from "./helpers/tones";
+import { sineWave, writeWav } from "./helpers/wav";
+
+const C4 = 261.63;
+const D4 = 293.66;
+const G4 = 392;
+const A4 = 440;
+const TONES = [C4, D4, G4, A4];
+
+// Only `expected` tones, at the given amplitudes, and nothing else
+function expectTones(levels: number[], expected: Map<number, number>) {
+  TONES.forEach((tone, i) => {
+    const amplitude = expected.get(tone) ?? 0;
+    expect(Math.abs(levels[i] - amplitude)).toBeLessThan(0.03);
+  });
+}
+
+function tempWav(name: string, channels: Float32Array[]) {
+  const filePath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+    name
+  );
+  writeWav(filePath, channels);
+  return filePath;
+}
+
+test.describe("Channel Modes", () => {
+  test("should shift the chosen channel or a mono downmix", async ({
+    page,
+  }) => {
+    // C on the left, G on the right; everything goes up two semitones
+    const audioPath = tempWav("split.wav", [
+      sineWave(C4, 3, 0.25),
+      sineWave(G4, 3, 0.25),
+    ]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.locator("#pitchSlider").fill("2");
+
+    await page.locator("#channelModeSelect").selectOption("left");
+    await renderPreview(page);
+    let levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(1);
+    expectTones(levels.mid, new Map([[D4, 0.25]]));
+
+    await page.locator("#channelModeSelect").selectOption("right");
+    await renderPreview(page);
+    levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(1);
+    expectTones(levels.mid, new Map([[A4, 0.25]]));
+
+    // The downmix averages the two sides
+    await page.locator("#channelModeSelect").selectOption("mono");
+    await renderPreview(page);
+    levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(1);
+    expectTones(
+      levels.mid,
+      new Map([
+        [D4, 0.125],
+        [A4, 0.125],
+      ])
+    );
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should shift stereo whose channels are inverted copies", async ({
+    page,
+  }) => {
+    // Summed to mono this cancels out, which must not read as silence
+    const tone = sineWave(C4, 3, 0.25);
+    const audioPath = tempWav("inverted.wav", [
+      tone,
+      tone.map((value) => -value),
+    ]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.locator("#pitchSlider").fill("2");
+    await renderPreview(page);
+
+    const levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(2);
+    expectTones(levels.mid, new Map());
+    expectTones(levels.side, new Map([[D4, 0.25]]));
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should shift only the mid or the side signal", async ({ page }) => {
+    // C in the middle of the stereo image, G only in the difference
+    const mid = sineWave(C4, 3, 0.2);
+    const side = sineWave(G4, 3, 0.1);
+    const audioPath = tempWav("mid-side.wav", [
+      mid.map((value, i) => value + side[i]),
+      mid.map((value, i) => value - side[i]),
+    ]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.locator("#pitchSlider").fill("2");
+
+    await page.locator("#channelModeSelect").selectOption("mid");
+    await renderPreview(page);
+    let levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(2);
+    expectTones(levels.mid, new Map([[D4, 0.2]]));
+    expectTones(levels.side, new Map([[G4, 0.1]]));
+
+    await page.locator("#channelModeSelect").selectOption("side");
+    await renderPreview(page);
+    levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(2);
+    expectTones(levels.mid, new Map([[C4, 0.2]]));
+    expectTones(levels.side, new Map([[A4, 0.1]]));
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { test, expect } from "@playwright/test";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const cliPath = path.resolve(__dirname, "../dist/cli.mjs");
+const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+function runCli(...args: string[]) {
+  return spawnSync(process.execPath, [cliPath, ...args], {
+    encoding: "utf8",
+    timeout: 120000,
+  });
+}
+
+test.describe("Command-line Tool", () => {
+  test("should transpose a file and write a WAV", () => {
+    const outputPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "out.wav"
+    );
+
+    const result = runCli(
+      audioPath,
+      "-o",
+      outputPath,
+      "--semitones",
+      "-2",
+      "--cents",
+      "15",
+      "--tempo",
+      "0.9"
+    );
+
+    expect(result.status).toBe(0);
+    expect(result.stderr).toContain("Processing 100%");
+
+    const output = fs.readFileSync(outputPath);
+    expect(output.subarray(0, 4).toString("ascii")).toBe("RIFF");
+    expect(output.subarray(8, 12).toString("ascii")).toBe("WAVE");
+  });
+
+  test("should exit with 2 on bad arguments", () => {
+    const result = runCli(audioPath, "-o", "out.wav", "--tempo", "fast");
+
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain("--tempo must be a number");
+  });
+
+  test("should exit with 1 when the input can't be read", () => {
+    const result = runCli("missing.wav", "-o", "out.wav", "--quiet");
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("missing.wav");
+  });
+});
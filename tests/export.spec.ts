@@ -130,4 +130,50 @@ test.describe("Export Functionality", () => {
 
     console.log("Export test completed successfully!");
   });
+
+  test("should export 48 kHz 24-bit WAV", async ({ page }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    await page.locator("#pitchSlider").fill("2");
+    await page.locator("#exportFormatSelect").selectOption("wav");
+    await expect(page.locator("#wavOptions")).toBeVisible();
+    await expect(page.locator("#exportBtn")).toHaveText("Export WAV");
+    await page.locator("#bitDepthSelect").selectOption("24");
+    await page.locator("#sampleRateSelect").selectOption("48000");
+    await page.locator("#ditherSelect").selectOption("shaped");
+
+    // Export renders first when nothing has been previewed yet
+    const downloadPromise = page.waitForEvent("download", { timeout: 60000 });
+    await page.locator("#exportBtn").click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toMatch(/\.wav$/);
+
+    // Check the header: PCM, 48 kHz, 24 bits per sample
+    const stream = await download.createReadStream();
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    const wav = Buffer.concat(chunks);
+    expect(wav.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(wav.readUInt16LE(20)).toBe(1);
+    expect(wav.readUInt32LE(24)).toBe(48000);
+    expect(wav.readUInt16LE(34)).toBe(24);
+
+    expect(errors.length).toBe(0);
+  });
 });
@@ -7,11 +7,14 @@ export interface PitchAnalysisResult {
   semitonesFromC4: number;
 }
 
+// `position` is how far into the audio to listen, from 0 to 1
 export async function analyzePitch(
   page: Page,
-  audioSelector: string
+  audioSelector: string,
+  position = 0.25
 ): Promise<PitchAnalysisResult> {
-  return await page.evaluate(async (selector) => {
+  const target = { selector: audioSelector, position };
+  return await page.evaluate(async ({ selector, position }) => {
     const audioElement = document.querySelector(selector) as HTMLAudioElement;
     if (!audioElement) {
       throw new Error(`Audio element not found: ${selector}`);
@@ -28,7 +31,7 @@ export async function analyzePitch(
 
     const findPitch = (buffer: Float32Array, sampleRate: number) => {
       const bufferSize = 1024;
-      const start = Math.floor(buffer.length / 4);
+      const start = Math.floor(buffer.length * position);
       const analysisBuffer = buffer.slice(start, start + bufferSize);
 
       let bestCorrelation = -1;
@@ -91,5 +94,5 @@ export async function analyzePitch(
     };
 
     return getNote(frequency);
-  }, audioSelector);
+  }, target);
 }
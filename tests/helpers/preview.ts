@@ -0,0 +1,43 @@
+import { expect, Page } from "@playwright/test";
+import path from "path";
+
+// Open the app and load an audio file, waiting until it can be played
+export async function loadAudio(page: Page, audioPath: string) {
+  const htmlPath = path.resolve(__dirname, "../../dist/index.html");
+
+  await page.goto(`file://${htmlPath}`);
+  await page.waitForLoadState("networkidle");
+  await page.waitForSelector("#dropZone", { timeout: 10000 });
+  await page.locator("#fileInput").setInputFiles(audioPath);
+  await page.waitForSelector("#controls.visible", { timeout: 15000 });
+  await page.waitForFunction(
+    () =>
+      (document.querySelector("#originalAudio") as HTMLAudioElement).duration >
+      0,
+    { timeout: 10000 }
+  );
+}
+
+// Preview the current settings and wait for the new result to load
+export async function renderPreview(page: Page): Promise<number> {
+  const previousSrc = await page.getAttribute("#processedAudio", "src");
+  await page.locator("#previewBtn").click();
+  await expect(page.locator("#status")).toHaveText(
+    "Audio processed successfully",
+    { timeout: 30000 }
+  );
+  await page.waitForFunction(
+    (previous) => {
+      const audio = document.querySelector(
+        "#processedAudio"
+      ) as HTMLAudioElement;
+      return audio.getAttribute("src") !== previous && audio.duration > 0;
+    },
+    previousSrc,
+    { timeout: 10000 }
+  );
+  return page.evaluate(
+    () =>
+      (document.querySelector("#processedAudio") as HTMLAudioElement).duration
+  );
+}
@@ -0,0 +1,51 @@
+import { Page } from "@playwright/test";
+
+export interface ToneLevels {
+  channels: number;
+  // Amplitude of each tone in (L + R) / 2 and (L - R) / 2; mono output
+  // counts as all mid
+  mid: number[];
+  side: number[];
+}
+
+// Measure sine tones in one second of an audio element, starting at `from`
+// seconds or else from the middle
+export async function measureTones(
+  page: Page,
+  audioSelector: string,
+  tones: number[],
+  from?: number
+): Promise<ToneLevels> {
+  const target = { selector: audioSelector, tones, from };
+  return page.evaluate(async ({ selector, tones, from }) => {
+    const audio = document.querySelector(selector) as HTMLAudioElement;
+    const data = await (await fetch(audio.src)).arrayBuffer();
+    const audioBuffer = await new AudioContext().decodeAudioData(data);
+    const sampleRate = audioBuffer.sampleRate;
+    const start =
+      from === undefined
+        ? Math.floor((audioBuffer.length - sampleRate) / 2)
+        : Math.floor(from * sampleRate);
+    const left = audioBuffer.getChannelData(0);
+    const right = audioBuffer.getChannelData(audioBuffer.numberOfChannels - 1);
+
+    const amplitudes = (sign: number) =>
+      tones.map((frequency) => {
+        let re = 0;
+        let im = 0;
+        for (let i = 0; i < sampleRate; i++) {
+          const sample = (left[start + i] + sign * right[start + i]) / 2;
+          const phase = (2 * Math.PI * frequency * i) / sampleRate;
+          re += sample * Math.cos(phase);
+          im += sample * Math.sin(phase);
+        }
+        return (2 * Math.hypot(re, im)) / sampleRate;
+      });
+
+    return {
+      channels: audioBuffer.numberOfChannels,
+      mid: amplitudes(1),
+      side: amplitudes(-1),
+    };
+  }, target);
+}
@@ -0,0 +1,50 @@
+import fs from "fs";
+
+export const SAMPLE_RATE = 44100;
+
+// Write planar samples in -1..1 as a 16-bit PCM WAV
+export function writeWav(
+  filePath: string,
+  channels: Float32Array[],
+  sampleRate = SAMPLE_RATE
+) {
+  const frames = channels[0].length;
+  const blockAlign = channels.length * 2;
+  const data = Buffer.alloc(44 + frames * blockAlign);
+  data.write("RIFF", 0, "ascii");
+  data.writeUInt32LE(36 + frames * blockAlign, 4);
+  data.write("WAVE", 8, "ascii");
+  data.write("fmt ", 12, "ascii");
+  data.writeUInt32LE(16, 16);
+  data.writeUInt16LE(1, 20);
+  data.writeUInt16LE(channels.length, 22);
+  data.writeUInt32LE(sampleRate, 24);
+  data.writeUInt32LE(sampleRate * blockAlign, 28);
+  data.writeUInt16LE(blockAlign, 32);
+  data.writeUInt16LE(16, 34);
+  data.write("data", 36, "ascii");
+  data.writeUInt32LE(frames * blockAlign, 40);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      data.writeInt16LE(Math.round(sample * 32767), offset);
+      offset += 2;
+    }
+  }
+  fs.writeFileSync(filePath, data);
+}
+
+// A steady sine, `seconds` long
+export function sineWave(
+  frequency: number,
+  seconds: number,
+  amplitude = 0.25,
+  sampleRate = SAMPLE_RATE
+): Float32Array {
+  return Float32Array.from(
+    { length: Math.round(seconds * sampleRate) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+}
@@ -0,0 +1,44 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+
+test.describe("Key Detection", () => {
+  test("should detect the key and transpose by the smallest shift", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await page.waitForSelector("#targetKeySelect:not([disabled])", {
+      timeout: 10000,
+    });
+
+    // A lone middle C should come out as some key on C
+    const detectedKey = await page.locator("#detectedKey").textContent();
+    console.log("Detected key:", detectedKey);
+    expect(detectedKey).toMatch(/^C (major|minor)$/);
+
+    // C to A is quicker going down three than up nine
+    await page.locator("#targetKeySelect").selectOption("9");
+    await expect(page.locator("#pitchSlider")).toHaveValue("-3");
+    await expect(page.locator("#sliderValue")).toHaveText("-3");
+
+    // Moving the slider keeps the picker in step
+    await page.locator("#pitchSlider").fill("2");
+    await expect(page.locator("#targetKeySelect")).toHaveValue("2");
+
+    expect(errors.length).toBe(0);
+  });
+});
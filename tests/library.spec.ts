@@ -0,0 +1,129 @@
+import { test, expect, Page } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { analyzePitch } from "./helpers/pitch-detection";
+
+const distPath = path.resolve(__dirname, "../dist");
+const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+// Serve a bare page next to the library and its chunks; module imports need
+// http(s). Returns the paths the page asks for.
+async function serveLibrary(page: Page, body = ""): Promise<string[]> {
+  const requested: string[] = [];
+  await page.route("http://transposer.test/**", (route) => {
+    const url = new URL(route.request().url());
+    requested.push(url.pathname);
+    if (/^\/transpose[\w-]*\.js$/.test(url.pathname)) {
+      return route.fulfill({
+        path: path.join(distPath, url.pathname),
+        contentType: "text/javascript",
+      });
+    }
+    if (url.pathname === "/middle-c.mp3") {
+      return route.fulfill({ path: audioPath, contentType: "audio/mpeg" });
+    }
+    return route.fulfill({
+      contentType: "text/html",
+      body: `<!DOCTYPE html><title>Library</title>${body}`,
+    });
+  });
+  await page.goto("http://transposer.test/");
+  return requested;
+}
+
+test.describe("Headless Library", () => {
+  test("should transpose audio without the page markup", async ({ page }) => {
+    // FFmpeg lives in a chunk of its own, so importing the engine is cheap
+    expect(fs.statSync(path.join(distPath, "transpose.js")).size).toBeLessThan(
+      5 * 1024 * 1024
+    );
+
+    const requested = await serveLibrary(page);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    const result = await page.evaluate(async () => {
+      const { transpose } = await import("/transpose.js" as string);
+      const input = await (await fetch("/middle-c.mp3")).arrayBuffer();
+      const stages: string[] = [];
+      let lastProgress = 0;
+
+      const blob: Blob = await transpose(input, {
+        semitones: -2,
+        cents: 15,
+        tempo: 0.9,
+        output: "wav",
+        onProgress: ({ stage, progress }: any) => {
+          if (!stages.includes(stage)) stages.push(stage);
+          lastProgress = progress;
+        },
+      });
+      const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+      return {
+        type: blob.type,
+        size: blob.size,
+        riff: String.fromCharCode(...header.slice(0, 4)),
+        wave: String.fromCharCode(...header.slice(8, 12)),
+        stages,
+        lastProgress,
+      };
+    });
+
+    expect(result.type).toBe("audio/wav");
+    expect(result.riff).toBe("RIFF");
+    expect(result.wave).toBe("WAVE");
+    expect(result.size).toBeGreaterThan(44);
+    expect(result.stages).toEqual(["decoding", "processing", "encoding"]);
+    expect(result.lastProgress).toBe(100);
+    // MP3 in and WAV out need no FFmpeg
+    expect(requested.some((file) => file.includes("ffmpeg"))).toBe(false);
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should keep jobs queued on one worker apart", async ({ page }) => {
+    // One worker, so both jobs wait in the same queue
+    await page.addInitScript(() => {
+      Object.defineProperty(navigator, "hardwareConcurrency", {
+        get: () => 1,
+      });
+    });
+    await serveLibrary(
+      page,
+      '<audio id="fifth"></audio><audio id="third"></audio>'
+    );
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.evaluate(async () => {
+      const { Transposer } = await import("/transpose.js" as string);
+      const transposer = new Transposer();
+      const input = await (await fetch("/middle-c.mp3")).arrayBuffer();
+
+      // Started together; each result must come back to its own caller
+      const [fifth, third]: Blob[] = await Promise.all([
+        transposer.transpose(input, { semitones: 7, output: "wav" }),
+        transposer.transpose(input, { semitones: 4, output: "wav" }),
+      ]);
+      (document.querySelector("#fifth") as HTMLAudioElement).src =
+        URL.createObjectURL(fifth);
+      (document.querySelector("#third") as HTMLAudioElement).src =
+        URL.createObjectURL(third);
+    });
+
+    expect((await analyzePitch(page, "#fifth")).note).toBe("G");
+    expect((await analyzePitch(page, "#third")).note).toBe("E");
+
+    expect(errors.length).toBe(0);
+  });
+});
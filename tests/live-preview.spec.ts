@@ -0,0 +1,143 @@
+import { test, expect, Page } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadAudio } from "./helpers/preview";
+import { sineWave, writeWav } from "./helpers/wav";
+
+const DURATION = 3;
+
+// A message to or from the worklet, stamped with the audio clock
+interface LiveMessage {
+  direction: "sent" | "received";
+  type: string;
+  data?: { time?: number; semitones?: number };
+  time: number;
+}
+
+function liveMessages(page: Page): Promise<LiveMessage[]> {
+  return page.evaluate(() => (window as any).liveMessages as LiveMessage[]);
+}
+
+test.describe("Live Preview", () => {
+  test("should play, follow changes while playing and end after the tail", async ({
+    page,
+  }) => {
+    test.setTimeout(60000);
+
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "tone.wav"
+    );
+    const tone = sineWave(440, DURATION);
+    writeWav(audioPath, [tone, tone]);
+
+    // Log what goes over the worklet's port, leaving the track data out
+    await page.addInitScript(() => {
+      const log: object[] = [];
+      (window as any).liveMessages = log;
+      const NativeNode = window.AudioWorkletNode;
+      window.AudioWorkletNode = class extends NativeNode {
+        constructor(...args: ConstructorParameters<typeof AudioWorkletNode>) {
+          super(...args);
+          const stamp = () => this.context.currentTime;
+          const post = this.port.postMessage.bind(this.port);
+          this.port.postMessage = (message: any, transfer?: any) => {
+            log.push({
+              direction: "sent",
+              type: message.type,
+              data: message.type === "load" ? undefined : message.data,
+              time: stamp(),
+            });
+            post(message, transfer);
+          };
+          this.port.addEventListener("message", (event) =>
+            log.push({ direction: "received", ...event.data, time: stamp() })
+          );
+        }
+      };
+    });
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    const playBtn = page.locator("#livePlayBtn");
+    await expect(playBtn).toBeEnabled({ timeout: 10000 });
+    await expect(page.locator("#liveSeek")).toHaveAttribute(
+      "max",
+      DURATION.toString()
+    );
+
+    await playBtn.click();
+    await expect(playBtn).toHaveText("❚❚ Pause live");
+
+    // The playhead moves while the track plays
+    await page.waitForFunction(
+      () =>
+        parseFloat(
+          (document.querySelector("#liveSeek") as HTMLInputElement).value
+        ) > 0.3,
+      undefined,
+      { timeout: 10000 }
+    );
+
+    // Moving the slider retunes the playing stretcher without stopping it
+    await page.locator("#pitchSlider").fill("3");
+    await expect
+      .poll(async () =>
+        (await liveMessages(page)).some(
+          (message) =>
+            message.type === "params" && message.data?.semitones === 3
+        )
+      )
+      .toBe(true);
+    await page.waitForFunction(
+      () =>
+        parseFloat(
+          (document.querySelector("#liveSeek") as HTMLInputElement).value
+        ) > 0.8,
+      undefined,
+      { timeout: 10000 }
+    );
+    await expect(playBtn).toHaveText("❚❚ Pause live");
+
+    // Jump near the end; the worklet reports the new playhead straight away
+    await page.locator("#liveSeek").evaluate((input: HTMLInputElement) => {
+      input.value = "2";
+      input.dispatchEvent(new Event("input"));
+    });
+    await expect
+      .poll(async () =>
+        (await liveMessages(page)).some(
+          (message) =>
+            message.type === "position" &&
+            Math.abs(message.data!.time! - 2) < 0.01
+        )
+      )
+      .toBe(true);
+
+    // At the end the button resets and the playhead goes back to the start
+    await expect(playBtn).toHaveText("▶ Play live", { timeout: 10000 });
+    await expect(page.locator("#liveSeek")).toHaveValue("0");
+
+    const messages = await liveMessages(page);
+    expect(messages.some((message) => message.type === "error")).toBe(false);
+    const seek = messages.find(
+      (message) => message.type === "seek" && message.data?.time === 2
+    )!;
+    const ended = messages.find((message) => message.type === "ended")!;
+    expect(ended).toBeDefined();
+
+    // The stretcher's tail is played out too, so the last second isn't cut
+    // short by its latency
+    expect(ended.time - seek.time).toBeGreaterThanOrEqual(DURATION - 2);
+    expect(ended.time - seek.time).toBeLessThan(DURATION - 2 + 0.5);
+
+    expect(errors.length).toBe(0);
+  });
+});
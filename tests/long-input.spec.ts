@@ -0,0 +1,96 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const SAMPLE_RATE = 44100;
+const CHANNELS = 2;
+// 5.5 minutes of 16-bit stereo is about 58 MB, past the old 50 MB cap
+const DURATION = 330;
+
+// A 16-bit stereo WAV of a quiet 220 Hz tone, written a second at a time
+function writeLongWav(filePath: string) {
+  const frames = SAMPLE_RATE * DURATION;
+  const dataSize = frames * CHANNELS * 2;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(CHANNELS, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * CHANNELS * 2, 28);
+  header.writeUInt16LE(CHANNELS * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataSize, 40);
+
+  const fd = fs.openSync(filePath, "w");
+  fs.writeSync(fd, header);
+  const second = Buffer.alloc(SAMPLE_RATE * CHANNELS * 2);
+  for (let s = 0; s < DURATION; s++) {
+    for (let i = 0; i < SAMPLE_RATE; i++) {
+      const t = s + i / SAMPLE_RATE;
+      const value = Math.round(8000 * Math.sin(2 * Math.PI * 220 * t));
+      second.writeInt16LE(value, i * 4);
+      second.writeInt16LE(value, i * 4 + 2);
+    }
+    fs.writeSync(fd, second);
+  }
+  fs.closeSync(fd);
+}
+
+test.describe("Long Input", () => {
+  test("should load and render a file over 50 MB", async ({ page }) => {
+    test.setTimeout(300000);
+
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "rehearsal.wav"
+    );
+    writeLongWav(audioPath);
+    expect(fs.statSync(audioPath).size).toBeGreaterThan(50 * 1024 * 1024);
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 60000 });
+
+    // The live preview knows the length without having copied the track
+    const liveMax = await page.locator("#liveSeek").getAttribute("max");
+    expect(parseFloat(liveMax!)).toBeCloseTo(DURATION, 0);
+
+    await page.locator("#pitchSlider").fill("-2");
+    await page.locator("#previewBtn").click();
+    await expect(page.locator("#status")).toHaveText(
+      "Audio processed successfully",
+      { timeout: 240000 }
+    );
+
+    await page.waitForFunction(
+      () =>
+        (document.querySelector("#processedAudio") as HTMLAudioElement)
+          .duration > 0,
+      { timeout: 30000 }
+    );
+    const processedDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#processedAudio") as HTMLAudioElement).duration
+    );
+    expect(processedDuration).toBeCloseTo(DURATION, 0);
+
+    expect(errors.length).toBe(0);
+  });
+});
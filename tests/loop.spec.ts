@@ -0,0 +1,60 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+
+test.describe("Loop Practice", () => {
+  test("should loop a passage and keep it across re-renders", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await page.waitForSelector("#loopPlayBtn:not([disabled])", {
+      timeout: 10000,
+    });
+
+    await page.locator("#tempoSlider").fill("75");
+    await page.locator("#loopStart").fill("0.2");
+    await page.locator("#loopStart").dispatchEvent("change");
+    await page.locator("#loopEnd").fill("0.8");
+    await page.locator("#loopEnd").dispatchEvent("change");
+    await expect(page.locator("#loopRange")).toBeVisible();
+
+    // Playing renders first, then loops
+    await page.locator("#loopPlayBtn").click();
+    await expect(page.locator("#loopPlayBtn")).toHaveText("■ Stop loop", {
+      timeout: 30000,
+    });
+    await expect(page.locator("#loopPass")).toHaveText(/^Pass \d+$/, {
+      timeout: 5000,
+    });
+
+    // A pitch change stops playback but keeps the loop points
+    await page.locator("#pitchSlider").fill("2");
+    await expect(page.locator("#loopPlayBtn")).toHaveText("▶ Play loop");
+    await expect(page.locator("#loopStart")).toHaveValue("0.2");
+    await expect(page.locator("#loopEnd")).toHaveValue("0.8");
+
+    // The speed trainer counts up from the tempo slider
+    await page.locator("#trainerToggle").check();
+    await page.locator("#loopPlayBtn").click();
+    await expect(page.locator("#loopPass")).toHaveText(/^Pass 1 · 75%$/, {
+      timeout: 30000,
+    });
+
+    await page.locator("#loopPlayBtn").click();
+    expect(errors.length).toBe(0);
+  });
+});
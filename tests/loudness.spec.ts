@@ -0,0 +1,117 @@
+import { test, expect, Download, Page } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { decodeWav } from "../src/audio/WavDecoder";
+import { loadAudio } from "./helpers/preview";
+import { SAMPLE_RATE, sineWave, writeWav } from "./helpers/wav";
+
+// Export the loaded audio as float WAV, normalized to `target` LUFS
+async function exportNormalized(page: Page, target: string) {
+  await page.locator("#normalizeToggle").check();
+  await page.locator("#loudnessTargetInput").fill(target);
+  await page.locator("#exportFormatSelect").selectOption("wav");
+  await page.locator("#bitDepthSelect").selectOption("32");
+
+  const downloadPromise = page.waitForEvent("download", { timeout: 60000 });
+  await page.locator("#exportBtn").click();
+  return readWav(await downloadPromise);
+}
+
+async function readWav(download: Download) {
+  const data = fs.readFileSync(await download.path());
+  return decodeWav(
+    data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+  );
+}
+
+// Peak of the signal oversampled 4x with a windowed sinc, as a ratio
+function truePeak(samples: Float32Array): number {
+  const taps = 32;
+  let peak = 0;
+  for (let i = taps; i < samples.length - taps; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+    for (const fraction of [0.25, 0.5, 0.75]) {
+      let value = 0;
+      for (let k = 1 - taps; k <= taps; k++) {
+        const x = fraction - k;
+        const weight = 0.5 + 0.5 * Math.cos((Math.PI * x) / taps);
+        value +=
+          (samples[i + k] * weight * Math.sin(Math.PI * x)) / (Math.PI * x);
+      }
+      peak = Math.max(peak, Math.abs(value));
+    }
+  }
+  return peak;
+}
+
+function tempWav(name: string, channels: Float32Array[]) {
+  const filePath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+    name
+  );
+  writeWav(filePath, channels);
+  return filePath;
+}
+
+test.describe("Loudness", () => {
+  test("should normalize the export to the target loudness", async ({
+    page,
+  }) => {
+    // A stereo 997 Hz sine reads 20·log10(amplitude) LUFS: -26 here
+    const tone = sineWave(997, 5, 0.05);
+    const audioPath = tempWav("quiet.wav", [tone, tone]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.locator("#previewBtn").click();
+    await expect(page.locator("#loudnessReadout")).toHaveText(
+      /^-26\.\d LUFS, true peak -26\.\d dBTP$/,
+      { timeout: 30000 }
+    );
+
+    // So at -14 LUFS its amplitude is 10^(-14/20)
+    const { channels } = await exportNormalized(page, "-14");
+    const middle = channels[0].subarray(
+      channels[0].length / 4,
+      (channels[0].length * 3) / 4
+    );
+    const peak = middle.reduce((max, value) => Math.max(max, Math.abs(value)));
+    expect(Math.abs(20 * Math.log10(peak) + 14)).toBeLessThan(0.3);
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should keep true peaks under -1 dBTP", async ({ page }) => {
+    // A quiet tone with loud 3 kHz bursts that the gain pushes past 0 dBFS
+    const tone = sineWave(997, 5, 0.05);
+    for (let second = 0.5; second < 5; second++) {
+      const start = Math.round(second * SAMPLE_RATE);
+      const burst = sineWave(3000, 0.002, 0.9);
+      burst.forEach((value, i) => (tone[start + i] += value));
+    }
+    const audioPath = tempWav("bursts.wav", [tone, tone]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    const { channels } = await exportNormalized(page, "-14");
+
+    for (const channel of channels) {
+      expect(20 * Math.log10(truePeak(channel))).toBeLessThan(-0.9);
+    }
+
+    expect(errors.length).toBe(0);
+  });
+});
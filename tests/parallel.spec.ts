@@ -0,0 +1,102 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { sineWave, writeWav } from "./helpers/wav";
+
+// Long enough for three 10-second segments
+const DURATION = 30;
+
+test.describe("Parallel Rendering", () => {
+  test("should split a long input across workers without a seam", async ({
+    page,
+  }) => {
+    test.setTimeout(180000);
+
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "tone.wav"
+    );
+    const tone = sineWave(220, DURATION);
+    writeWav(audioPath, [tone, tone]);
+
+    // Enough workers for one segment per 10 seconds
+    await page.addInitScript(() => {
+      Object.defineProperty(navigator, "hardwareConcurrency", {
+        get: () => 4,
+      });
+    });
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    const consoleMessages: string[] = [];
+    page.on("console", (msg) => consoleMessages.push(msg.text()));
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 30000 });
+
+    await page.locator("#pitchSlider").fill("2");
+    await page.locator("#tempoSlider").fill("80");
+    await page.locator("#previewBtn").click();
+    await expect(page.locator("#status")).toHaveText(
+      "Audio processed successfully",
+      { timeout: 150000 }
+    );
+    expect(consoleMessages).toContain("Rendering 3 segments in parallel");
+
+    await page.waitForFunction(
+      () =>
+        (document.querySelector("#processedAudio") as HTMLAudioElement)
+          .duration > 0,
+      { timeout: 10000 }
+    );
+
+    // Loudness in 50 ms windows, leaving out the first and last second
+    const levels = await page.evaluate(async () => {
+      const audio = document.querySelector(
+        "#processedAudio"
+      ) as HTMLAudioElement;
+      const data = await (await fetch(audio.src)).arrayBuffer();
+      const audioBuffer = await new AudioContext().decodeAudioData(data);
+      const samples = audioBuffer.getChannelData(0);
+      const windowLength = Math.round(audioBuffer.sampleRate / 20);
+      const rms: number[] = [];
+      for (
+        let start = audioBuffer.sampleRate;
+        start + windowLength < samples.length - audioBuffer.sampleRate;
+        start += windowLength
+      ) {
+        let sum = 0;
+        for (let i = start; i < start + windowLength; i++) {
+          sum += samples[i] * samples[i];
+        }
+        rms.push(Math.sqrt(sum / windowLength));
+      }
+      rms.sort((a, b) => a - b);
+      return {
+        duration: audioBuffer.duration,
+        min: rms[0],
+        median: rms[Math.floor(rms.length / 2)],
+        max: rms[rms.length - 1],
+      };
+    });
+
+    // Segments line up end to end on the stretched timeline
+    expect(levels.duration).toBeCloseTo(DURATION / 0.8, 1);
+    // A steady tone stays steady across the joins; out-of-phase segments
+    // would partly cancel there
+    expect(levels.min / levels.median).toBeGreaterThan(0.9);
+    expect(levels.max / levels.median).toBeLessThan(1.1);
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+
+test.describe("Presets", () => {
+  test("should apply built-in presets and keep user presets", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    await page.locator("#presetSelect").selectOption({ label: "F horn (-7)" });
+    await expect(page.locator("#sliderValue")).toHaveText("-7");
+
+    // Save the current settings under a name of our own
+    await page.locator("#tempoSlider").fill("85");
+    page.once("dialog", (dialog) => dialog.accept("Slow horn"));
+    await page.locator("#savePresetBtn").click();
+    await expect(page.locator("#status")).toHaveText(
+      'Saved preset "Slow horn"'
+    );
+
+    // It survives a reload and sets both pitch and tempo
+    await page.reload();
+    await page.waitForLoadState("networkidle");
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await page.locator("#presetSelect").selectOption({ label: "Slow horn" });
+    await expect(page.locator("#sliderValue")).toHaveText("-7");
+    await expect(page.locator("#tempoSliderValue")).toHaveText("85");
+
+    const downloadPromise = page.waitForEvent("download");
+    await page.locator("#exportPresetsBtn").click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toBe("transposer-presets.json");
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should leave export options a preset doesn't set", async ({ page }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    await page.locator("#exportFormatSelect").selectOption("wav");
+    await page.locator("#sampleRateSelect").selectOption("48000");
+    await page.locator("#normalizeToggle").check();
+    await page.locator("#loudnessTargetInput").fill("-16");
+
+    // Only the bit depth is set here
+    const presets = {
+      version: 1,
+      presets: [
+        {
+          name: "24-bit",
+          settings: { export: { format: "wav", wav: { bitDepth: 24 } } },
+        },
+      ],
+    };
+    await page.locator("#presetFileInput").setInputFiles({
+      name: "presets.json",
+      mimeType: "application/json",
+      buffer: Buffer.from(JSON.stringify(presets)),
+    });
+    await expect(page.locator("#status")).toHaveText("Imported 1 preset(s)");
+    await page.locator("#presetSelect").selectOption({ label: "24-bit" });
+
+    await expect(page.locator("#bitDepthSelect")).toHaveValue("24");
+    await expect(page.locator("#sampleRateSelect")).toHaveValue("48000");
+    await expect(page.locator("#normalizeToggle")).toBeChecked();
+    await expect(page.locator("#loudnessTargetInput")).toHaveValue("-16");
+
+    expect(errors.length).toBe(0);
+  });
+});
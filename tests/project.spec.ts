@@ -0,0 +1,124 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+
+test.describe("Project Files", () => {
+  test("should save settings and re-apply them to the same audio", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await expect(page.locator("#saveProjectBtn")).toBeEnabled({
+      timeout: 15000,
+    });
+
+    await page.locator("#pitchSlider").fill("-3");
+    await page.locator("#fineSlider").fill("12");
+    await page.locator("#tempoSlider").fill("90");
+    await page.locator("#engineSelect").selectOption("finer");
+    await page.locator("#exportFormatSelect").selectOption("wav");
+
+    const downloadPromise = page.waitForEvent("download");
+    await page.locator("#saveProjectBtn").click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toBe("middle-c.transposer.json");
+    const project = JSON.parse(fs.readFileSync(await download.path(), "utf8"));
+    expect(project.source.name).toBe("middle-c.mp3");
+    expect(project.settings.semitones).toBe(-3);
+
+    // Reload, open the project, then provide the audio it was saved with
+    await page.reload();
+    await page.waitForLoadState("networkidle");
+    await page.locator("#projectFileInput").setInputFiles({
+      name: "middle-c.transposer.json",
+      mimeType: "application/json",
+      buffer: Buffer.from(JSON.stringify(project)),
+    });
+    await expect(page.locator("#projectStatus")).toHaveText(
+      "Load middle-c.mp3 to apply this project"
+    );
+
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await expect(page.locator("#projectStatus")).toHaveText(
+      "Applied project for middle-c.mp3",
+      { timeout: 15000 }
+    );
+    await expect(page.locator("#sliderValue")).toHaveText("-3");
+    await expect(page.locator("#fineSliderValue")).toHaveText("12");
+    await expect(page.locator("#tempoSliderValue")).toHaveText("90");
+    await expect(page.locator("#engineSelect")).toHaveValue("finer");
+    await expect(page.locator("#exportBtn")).toHaveText("Export WAV");
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should fall back to defaults for options it doesn't know", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await expect(page.locator("#saveProjectBtn")).toBeEnabled({
+      timeout: 15000,
+    });
+
+    const downloadPromise = page.waitForEvent("download");
+    await page.locator("#saveProjectBtn").click();
+    const download = await downloadPromise;
+    const project = JSON.parse(fs.readFileSync(await download.path(), "utf8"));
+
+    // As if saved by a newer version with options this one lacks
+    project.settings.stretch.engine = "hyper";
+    project.settings.channelMode = "surround";
+    project.settings.vocalReduction = "karaoke";
+    project.settings.export.format = "flac";
+
+    // None of the session's own choices should survive opening it
+    await page.locator("#engineSelect").selectOption("finer");
+    await page.locator("#channelModeSelect").selectOption("mono");
+    await page.locator("#vocalReductionSelect").selectOption("band");
+    await page.locator("#exportFormatSelect").selectOption("wav");
+
+    await page.locator("#projectFileInput").setInputFiles({
+      name: "middle-c.transposer.json",
+      mimeType: "application/json",
+      buffer: Buffer.from(JSON.stringify(project)),
+    });
+    await expect(page.locator("#projectStatus")).toHaveText(
+      "Applied project for middle-c.mp3"
+    );
+    await expect(page.locator("#engineSelect")).toHaveValue("faster");
+    await expect(page.locator("#channelModeSelect")).toHaveValue("all");
+    await expect(page.locator("#vocalReductionSelect")).toHaveValue("off");
+    await expect(page.locator("#exportBtn")).toHaveText("Export M4A");
+
+    expect(errors.length).toBe(0);
+  });
+});
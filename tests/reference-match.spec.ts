@@ -0,0 +1,59 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { analyzePitch } from "./helpers/pitch-detection";
+import { loadAudio, renderPreview } from "./helpers/preview";
+import { SAMPLE_RATE, writeWav } from "./helpers/wav";
+
+// A sustained D major chord tuned 20 cents sharp
+function sharpDMajor(): Float32Array {
+  const notes = [50, 62, 66, 69].map(
+    (midi) => 440 * Math.pow(2, (midi - 69 + 0.2) / 12)
+  );
+  return Float32Array.from({ length: 4 * SAMPLE_RATE }, (_, i) =>
+    notes.reduce(
+      (sum, frequency) =>
+        sum + 0.15 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE),
+      0
+    )
+  );
+}
+
+test.describe("Reference Matching", () => {
+  test("should match key and tuning to a reference track", async ({ page }) => {
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+    const referencePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "d-major.wav"
+    );
+    writeWav(referencePath, [sharpDMajor()]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await expect(page.locator("#referenceBtn")).toBeEnabled({
+      timeout: 10000,
+    });
+    await page.locator("#referenceFileInput").setInputFiles(referencePath);
+    await expect(page.locator("#referenceResult")).toHaveText(
+      /^d-major\.wav: D major, \+\d+\.\d cents$/,
+      { timeout: 10000 }
+    );
+
+    // C up to D, and the reference's 20 cents less middle C's own offset
+    await expect(page.locator("#pitchSlider")).toHaveValue("2");
+    const cents = parseInt(await page.locator("#fineSlider").inputValue(), 10);
+    expect(Math.abs(cents - 20)).toBeLessThanOrEqual(3);
+
+    await renderPreview(page);
+    expect((await analyzePitch(page, "#processedAudio")).note).toBe("D");
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+
+test.describe("Region Processing", () => {
+  test("should only stretch the selected region", async ({ page }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    await page.waitForFunction(
+      () => {
+        const audio = document.querySelector(
+          "#originalAudio"
+        ) as HTMLAudioElement;
+        return audio && audio.duration > 0;
+      },
+      { timeout: 10000 }
+    );
+
+    const originalDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#originalAudio") as HTMLAudioElement).duration
+    );
+
+    // Halve the tempo of a 0.3s region, which should add 0.3s overall
+    await page.locator("#tempoSlider").fill("50");
+    await page.locator("#regionStart").fill("0.1");
+    await page.locator("#regionEnd").fill("0.4");
+
+    await page.locator("#previewBtn").click();
+
+    await page.waitForFunction(
+      () => {
+        const btn = document.querySelector("#previewBtn") as HTMLButtonElement;
+        return btn && btn.textContent === "Preview" && !btn.disabled;
+      },
+      { timeout: 30000 }
+    );
+
+    await page.waitForFunction(
+      () => {
+        const audio = document.querySelector(
+          "#processedAudio"
+        ) as HTMLAudioElement;
+        return audio && audio.duration > 0;
+      },
+      { timeout: 10000 }
+    );
+
+    const processedDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#processedAudio") as HTMLAudioElement).duration
+    );
+
+    console.log("Original duration:", originalDuration);
+    console.log("Processed duration:", processedDuration);
+
+    expect(processedDuration - originalDuration).toBeGreaterThan(0.25);
+    expect(processedDuration - originalDuration).toBeLessThan(0.35);
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import { analyzePitch } from "./helpers/pitch-detection";
+import { loadAudio, renderPreview } from "./helpers/preview";
+
+test.describe("Render Cache", () => {
+  test("should keep renders in memory unless asked to persist", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    // Nothing is written to IndexedDB until the user opts in
+    await expect(page.locator("#persistentCacheToggle")).not.toBeChecked();
+    const databases = await page.evaluate(async () =>
+      (await indexedDB.databases()).map((db) => db.name)
+    );
+    expect(databases).toHaveLength(0);
+
+    await page.locator("#persistentCacheToggle").check();
+    await page.reload();
+    await page.waitForLoadState("networkidle");
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+    await expect(page.locator("#persistentCacheToggle")).toBeChecked();
+
+    await page.locator("#clearCacheBtn").click();
+    await expect(page.locator("#status")).toHaveText("Render cache cleared");
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should serve a repeated render from the cache", async ({ page }) => {
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    const consoleMessages: string[] = [];
+    page.on("console", (msg) => consoleMessages.push(msg.text()));
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    const count = (message: string) =>
+      consoleMessages.filter((text) => text === message).length;
+    const rendered = () => count("Pitch shifting completed successfully");
+
+    await loadAudio(page, audioPath);
+
+    await page.locator("#pitchSlider").fill("7");
+    const firstDuration = await renderPreview(page);
+    await page.locator("#pitchSlider").fill("3");
+    await renderPreview(page);
+    expect(rendered()).toBe(2);
+
+    // Back to +7: the first result comes back without a new render
+    await page.locator("#pitchSlider").fill("7");
+    const cachedDuration = await renderPreview(page);
+    expect(count("Using cached render")).toBe(1);
+    expect(rendered()).toBe(2);
+    expect(cachedDuration).toBeCloseTo(firstDuration, 2);
+    expect((await analyzePitch(page, "#processedAudio")).note).toBe("G");
+
+    // Clearing the cache means rendering again
+    await page.locator("#clearCacheBtn").click();
+    await expect(page.locator("#status")).toHaveText("Render cache cleared");
+    await renderPreview(page);
+    expect(rendered()).toBe(3);
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+
+test.describe("Settings Links", () => {
+  test("should pre-set the controls from the URL and keep it current", async ({
+    page,
+  }) => {
+    const htmlPath = path.resolve(__dirname, "../dist/index.html");
+    const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+    await page.goto(`file://${htmlPath}#st=-3&tempo=92&channel=mono`);
+    await page.waitForLoadState("networkidle");
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await page.waitForSelector("#dropZone", { timeout: 10000 });
+    await page.locator("#fileInput").setInputFiles(audioPath);
+    await page.waitForSelector("#controls.visible", { timeout: 15000 });
+
+    await expect(page.locator("#sliderValue")).toHaveText("-3");
+    await expect(page.locator("#tempoSliderValue")).toHaveText("92");
+    await expect(page.locator("#channelModeSelect")).toHaveValue("mono");
+
+    // Changing a setting rewrites the hash
+    await page.locator("#pitchSlider").fill("2");
+    await expect
+      .poll(() => page.evaluate(() => location.hash))
+      .toBe("#st=2&tempo=92&channel=mono");
+
+    expect(errors.length).toBe(0);
+  });
+});
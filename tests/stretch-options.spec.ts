@@ -0,0 +1,79 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import { analyzePitch } from "./helpers/pitch-detection";
+import { loadAudio, renderPreview } from "./helpers/preview";
+
+const audioPath = path.resolve(__dirname, "middle-c.mp3");
+
+test.describe("Stretch Options", () => {
+  test("should keep the requested pitch with formants preserved", async ({
+    page,
+  }) => {
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    const originalDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#originalAudio") as HTMLAudioElement).duration
+    );
+
+    await page.locator("#pitchSlider").fill("7");
+    await page.locator("#formantToggle").check();
+    const duration = await renderPreview(page);
+
+    // Formant correction reshapes the spectrum, not the fundamental
+    expect(Math.abs(duration - originalDuration)).toBeLessThan(
+      originalDuration * 0.01
+    );
+    expect((await analyzePitch(page, "#processedAudio")).note).toBe("G");
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should keep the requested pitch and tempo with any quality options", async ({
+    page,
+  }) => {
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    const originalDuration = await page.evaluate(
+      () =>
+        (document.querySelector("#originalAudio") as HTMLAudioElement).duration
+    );
+    await page.locator("#advancedOptions summary").click();
+
+    // Every non-default R2 setting at once: C up 4 is E, 80% speed
+    await page.locator("#transientsSelect").selectOption("crisp");
+    await page.locator("#detectorSelect").selectOption("percussive");
+    await page.locator("#phaseSelect").selectOption("independent");
+    await page.locator("#windowSelect").selectOption("short");
+    await page.locator("#pitchModeSelect").selectOption("quality");
+    await page.locator("#pitchSlider").fill("4");
+    await page.locator("#tempoSlider").fill("80");
+    let duration = await renderPreview(page);
+    expect(duration).toBeCloseTo(originalDuration / 0.8, 1);
+    expect((await analyzePitch(page, "#processedAudio")).note).toBe("E");
+
+    // The R3 engine, down a fourth to G at the original speed
+    await page.locator("#engineSelect").selectOption("finer");
+    await page.locator("#pitchSlider").fill("-5");
+    await page.locator("#tempoSlider").fill("100");
+    duration = await renderPreview(page);
+    expect(Math.abs(duration - originalDuration)).toBeLessThan(
+      originalDuration * 0.01
+    );
+    expect((await analyzePitch(page, "#processedAudio")).note).toBe("G");
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadAudio, renderPreview } from "./helpers/preview";
+import { SAMPLE_RATE, writeWav } from "./helpers/wav";
+
+const BPM = 100;
+const DURATION = 12;
+
+// Short 1 kHz blips, one per beat
+function clickTrack(): Float32Array {
+  const samples = new Float32Array(DURATION * SAMPLE_RATE);
+  const beat = (60 / BPM) * SAMPLE_RATE;
+  for (let start = 0; start < samples.length; start += beat) {
+    const offset = Math.round(start);
+    for (let i = 0; i < 2000 && offset + i < samples.length; i++) {
+      samples[offset + i] =
+        0.8 *
+        Math.exp(-i / 300) *
+        Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+test.describe("Tempo Detection", () => {
+  test("should detect the BPM and stretch to a target BPM", async ({
+    page,
+  }) => {
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "clicks.wav"
+    );
+    writeWav(audioPath, [clickTrack()]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.waitForSelector("#targetBpmInput:not([disabled])", {
+      timeout: 10000,
+    });
+
+    const detectedText = await page.locator("#detectedBpm").textContent();
+    console.log("Detected tempo:", detectedText);
+    const detected = parseFloat(detectedText!);
+    expect(Math.abs(detected - BPM)).toBeLessThan(1.5);
+    await expect(page.locator("#targetBpmInput")).toHaveValue(
+      detected.toFixed(1)
+    );
+
+    // Asking for 80 BPM slows the track by the detected ratio
+    await page.locator("#targetBpmInput").fill("80");
+    await page.locator("#targetBpmInput").dispatchEvent("change");
+    await expect(page.locator("#tempoSlider")).toHaveValue(
+      Math.round((80 / detected) * 100).toString()
+    );
+    await expect(page.locator("#targetBpmInput")).toHaveValue("80.0");
+
+    const duration = await renderPreview(page);
+    expect(duration).toBeCloseTo((DURATION * detected) / 80, 1);
+
+    // The export is named and tagged with the tempo it ends up at
+    await page.locator("#exportFormatSelect").selectOption("wav");
+    const downloadPromise = page.waitForEvent("download", { timeout: 60000 });
+    await page.locator("#exportBtn").click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toBe("clicks_80bpm.wav");
+
+    const data = fs.readFileSync(await download.path());
+    const acid = data.indexOf("acid");
+    expect(acid).toBeGreaterThan(0);
+    expect(data.readFloatLE(acid + 28)).toBeCloseTo(80, 0);
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadAudio, renderPreview } from "./helpers/preview";
+import { sineWave, writeWav } from "./helpers/wav";
+
+test.describe("Tuning", () => {
+  test("should measure A = 432 and retune it to 440", async ({ page }) => {
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "a432.wav"
+    );
+    writeWav(audioPath, [sineWave(432, 4)]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await expect(page.locator("#measuredTuning")).not.toHaveText("—", {
+      timeout: 10000,
+    });
+
+    // 432 Hz is 31.8 cents flat of 440
+    const measured = await page.locator("#measuredTuning").textContent();
+    console.log("Measured tuning:", measured);
+    const [, cents, referenceHz] = measured!.match(
+      /^([+-]\d+\.\d) cents \(A = (\d+\.\d) Hz\)$/
+    )!;
+    expect(Math.abs(parseFloat(cents) + 31.8)).toBeLessThan(1);
+    expect(Math.abs(parseFloat(referenceHz) - 432)).toBeLessThan(0.5);
+
+    await page.locator("#referencePitchSelect").selectOption("440");
+    await expect(page.locator("#retuneCents")).toHaveText(
+      `+${(-parseFloat(cents)).toFixed(1)} cents`
+    );
+    await renderPreview(page);
+
+    // Count zero crossings over the middle of the result for its frequency
+    const frequency = await page.evaluate(async () => {
+      const audio = document.querySelector(
+        "#processedAudio"
+      ) as HTMLAudioElement;
+      const data = await (await fetch(audio.src)).arrayBuffer();
+      const audioBuffer = await new AudioContext().decodeAudioData(data);
+      const samples = audioBuffer.getChannelData(0);
+      const crossings: number[] = [];
+      for (
+        let i = audioBuffer.sampleRate;
+        i < samples.length - audioBuffer.sampleRate;
+        i++
+      ) {
+        if (samples[i - 1] < 0 && samples[i] >= 0) {
+          crossings.push(i - samples[i] / (samples[i] - samples[i - 1]));
+        }
+      }
+      const first = crossings[0];
+      const last = crossings[crossings.length - 1];
+      return ((crossings.length - 1) * audioBuffer.sampleRate) / (last - first);
+    });
+    console.log("Retuned frequency:", frequency);
+    expect(Math.abs(frequency - 440)).toBeLessThan(1);
+
+    expect(errors.length).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadAudio, renderPreview } from "./helpers/preview";
+import { measureTones } from "./helpers/tones";
+import { sineWave, writeWav } from "./helpers/wav";
+
+// Everything goes up two semitones: bass 60 Hz, "vocal" C4, side-only G4
+const BASS = 60 * 2 ** (2 / 12);
+const C4 = 261.63;
+const D4 = 293.66;
+const A4 = 440;
+const TONES = [BASS, D4, A4];
+
+test.describe("Vocal Reduction", () => {
+  test("should cancel the centred voice and keep the sides", async ({
+    page,
+  }) => {
+    const bass = sineWave(60, 3, 0.2);
+    const voice = sineWave(C4, 3, 0.2);
+    const side = sineWave(392, 3, 0.1);
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "mix.wav"
+    );
+    writeWav(audioPath, [
+      voice.map((value, i) => value + bass[i] + side[i]),
+      voice.map((value, i) => value + bass[i] - side[i]),
+    ]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.locator("#pitchSlider").fill("2");
+
+    // Centre removal takes out everything both channels share
+    await page.locator("#vocalReductionSelect").selectOption("center");
+    await renderPreview(page);
+    let levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(2);
+    levels.mid.forEach((level) => expect(level).toBeLessThan(0.01));
+    expect(levels.side[2]).toBeCloseTo(0.1, 1);
+
+    // The band mode leaves the bass in the middle
+    await page.locator("#vocalReductionSelect").selectOption("band");
+    await renderPreview(page);
+    levels = await measureTones(page, "#processedAudio", TONES);
+    expect(levels.channels).toBe(2);
+    expect(levels.mid[0]).toBeGreaterThan(0.15);
+    expect(levels.mid[1]).toBeLessThan(0.05);
+    expect(levels.side[2]).toBeCloseTo(0.1, 1);
+
+    expect(errors.length).toBe(0);
+  });
+
+  test("should leave the centre alone outside the region", async ({ page }) => {
+    const voice = sineWave(C4, 6, 0.2);
+    const side = sineWave(392, 6, 0.1);
+    const audioPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "transposer-")),
+      "mix.wav"
+    );
+    writeWav(audioPath, [
+      voice.map((value, i) => value + side[i]),
+      voice.map((value, i) => value - side[i]),
+    ]);
+
+    // Capture any errors
+    const errors: string[] = [];
+    page.on("pageerror", (error) => {
+      errors.push(error.message);
+      console.error(`Browser error: ${error.message}`);
+    });
+
+    await loadAudio(page, audioPath);
+    await page.locator("#pitchSlider").fill("2");
+    await page.locator("#regionStart").fill("3");
+    await page.locator("#regionEnd").fill("6");
+    await page.locator("#vocalReductionSelect").selectOption("center");
+    await renderPreview(page);
+
+    // Before the region the voice is still there, unshifted
+    const before = await measureTones(page, "#processedAudio", [C4], 0.5);
+    expect(before.mid[0]).toBeCloseTo(0.2, 1);
+
+    const inside = await measureTones(page, "#processedAudio", [C4, D4], 4);
+    inside.mid.forEach((level) => expect(level).toBeLessThan(0.01));
+
+    expect(errors.length).toBe(0);
+  });
+});